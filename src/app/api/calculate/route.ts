@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { performCalculations } from "@/lib/calculations";
+import { inputSchema } from "@/lib/schema";
+import type { DesignIssue } from "@/lib/validation";
+
+/**
+ * A problem with the request, shaped like the calculator's own design issues.
+ * `code` is one of theirs, a zod issue code when the body does not match
+ * /api/schema, or "invalid_json".
+ */
+type ApiIssue = Omit<DesignIssue, "code"> & { code: string };
+
+const errorResponse = (status: number, errors: ApiIssue[], warnings: ApiIssue[] = []) =>
+  NextResponse.json({ errors, warnings }, { status });
+
+/**
+ * Runs the calculator on a design posted as JSON, in SI units and the shape
+ * described by /api/schema. Responds with `{ results, warnings }`, one result
+ * per motor in order, or `{ errors, warnings }`. Every issue has the dotted
+ * `path` of the input it concerns, e.g. "motors.2.gearStages.0.ratio", or ""
+ * for the whole body.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, [
+      { path: "", severity: "error", code: "invalid_json", message: "The request body is not valid JSON" },
+    ]);
+  }
+
+  const parsed = inputSchema.safeParse(body);
+  if (!parsed.success) {
+    return errorResponse(
+      422,
+      parsed.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        severity: "error",
+        code: issue.code,
+        message: issue.message,
+      }))
+    );
+  }
+
+  const calculation = performCalculations(parsed.data);
+  if ("errors" in calculation) return errorResponse(422, calculation.errors, calculation.warnings);
+  return NextResponse.json(calculation);
+}
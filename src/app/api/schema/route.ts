@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { inputSchema } from "@/lib/schema";
+
+export const dynamic = "force-static";
+
+/** JSON Schema of the body /api/calculate accepts, generated from the form's own schema. */
+export function GET() {
+  return NextResponse.json({
+    ...z.toJSONSchema(inputSchema, { io: "input" }),
+    title: "Robotic arm design",
+    description:
+      "Input to /api/calculate. Values are in SI units (m, kg, kg/m³, Nm) except material stiffness and strength (GPa, MPa), " +
+      "angles (degrees) and speeds (rpm for motors, deg/s for joints). " +
+      "Links and motors are listed from the base, one motor per link.",
+  });
+}
@@ -5,8 +5,8 @@ import "./globals.css";
 const inter = Inter({ subsets: ["latin"] });
 
 export const metadata: Metadata = {
-  title: "6DOF Robotic Arm Torque & Power Calculator",
-  description: "Calculate torque and power for a 6DOF robotic arm",
+  title: "Robotic Arm Torque & Power Calculator",
+  description: "Calculate torque and power for a robotic arm with any number of joints",
 };
 
 export default function RootLayout({
@@ -1,67 +1,265 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import CalculatorForm from "@/components/CalculatorForm";
+import ComparisonView from "@/components/ComparisonView";
+import DesignIssueList from "@/components/DesignIssueList";
+import DesignLibrary from "@/components/DesignLibrary";
 import ResultsTable from "@/components/ResultsTable";
+import SensitivityAnalysis from "@/components/SensitivityAnalysis";
+import TorqueBreakdown from "@/components/TorqueBreakdown";
+import { UnitsProvider } from "@/components/UnitsProvider";
+import MotorSelectionTable from "@/components/MotorSelectionTable";
+import PayloadCapacityTable from "@/components/PayloadCapacityTable";
+import RatingCheckTable from "@/components/RatingCheckTable";
+import WorstCaseTable from "@/components/WorstCaseTable";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { performCalculations } from "@/lib/calculations";
-
-// Define types matching calculations.ts
-interface MotorResult {
-  T_total: number;
-  T_sf: number;
-  T_before: number;
-  T_before_sf: number;
-  P: number;
-  P_sf: number;
-}
-
-interface InputData {
-  m_payload: number;
-  density: number;
-  links: { length: number; radius: number }[];
-  motors: {
-    mass: number;
-    bodyLength: number;
-    pivotPosition: number;
-    rpm: number;
-    gearRatio: number;
-    safetyFactor: number;
-  }[];
-}
+import { performCalculations, type InputData, type MotorResult } from "@/lib/calculations";
+import type { PinnedDesign } from "@/lib/comparison";
+import {
+  addToHistory,
+  createEntryId,
+  loadHistory,
+  loadLibrary,
+  saveHistory,
+  saveLibrary,
+  saveToLibrary,
+  type HistoryEntry,
+  type LibraryDesign,
+} from "@/lib/designLibrary";
+import type { SelectionResult } from "@/lib/motorSelection";
+import { solvePayloadCapacity, type PayloadCapacity } from "@/lib/payloadCapacity";
+import type { DesignSnapshot, ProjectFile } from "@/lib/projectFile";
+import { decodeProject, sharedProjectCode } from "@/lib/shareLink";
+import { describeIssues, type DesignIssue } from "@/lib/validation";
+import { findWorstCasePoses, type WorstCaseResult } from "@/lib/worstCase";
 
 // State can be null, MotorResult[], or error object
 type ResultsState = null | MotorResult[] | { error: string };
+type WorstCaseState = null | WorstCaseResult[] | { error: string };
+type SelectionState = null | SelectionResult | { error: string };
+type CapacityState = null | PayloadCapacity | { error: string };
 
 export default function Home() {
   const [results, setResults] = useState<ResultsState>(null);
+  // Problems found by the last calculation, shown on the inputs and listed below the form
+  const [issues, setIssues] = useState<DesignIssue[]>([]);
+  const [worstCase, setWorstCase] = useState<WorstCaseState>(null);
+  // Fraction of the running worst-case search done, or null when none is running
+  const [worstCaseProgress, setWorstCaseProgress] = useState<number | null>(null);
+  const worstCaseSearch = useRef<AbortController | null>(null);
+  const [selection, setSelection] = useState<SelectionState>(null);
+  const [capacity, setCapacity] = useState<CapacityState>(null);
+  const [designToLoad, setDesignToLoad] = useState<DesignSnapshot | null>(null);
+  const [library, setLibrary] = useState<LibraryDesign[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [storageLoaded, setStorageLoaded] = useState(false);
+  const [calculatedDesign, setCalculatedDesign] = useState<InputData | null>(null);
+  const [pinned, setPinned] = useState<PinnedDesign[]>([]);
+  // Why the last design could not be pinned, kept apart from the results it would otherwise replace
+  const [pinError, setPinError] = useState<string | null>(null);
+
+  // The library and history live in the browser, so they are read after the first render
+  useEffect(() => {
+    setLibrary(loadLibrary());
+    setHistory(loadHistory());
+    setStorageLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (storageLoaded) saveLibrary(library);
+  }, [library, storageLoaded]);
+
+  useEffect(() => {
+    if (storageLoaded) saveHistory(history);
+  }, [history, storageLoaded]);
+
+  // A share link carries the design in the URL hash
+  useEffect(() => {
+    const code = sharedProjectCode(window.location.hash);
+    if (!code) return;
+    decodeProject(code)
+      .then(setDesignToLoad)
+      .catch((error) => setResults({ error: `Could not open the shared design: ${error.message}` }));
+  }, []);
+
+  // Every successful calculation is kept in the history
+  const calculate = (data: InputData) => {
+    const calculation = performCalculations(data);
+    if ("errors" in calculation) {
+      setIssues([...calculation.errors, ...calculation.warnings]);
+      setResults(null);
+    } else {
+      setIssues(calculation.warnings);
+      setHistory((previous) => addToHistory(previous, data, calculation.results));
+      setResults(calculation.results);
+    }
+    setCalculatedDesign(data);
+  };
+
+  // A search still running would otherwise report on inputs that have since changed
+  const clearWorstCase = () => {
+    worstCaseSearch.current?.abort();
+    worstCaseSearch.current = null;
+    setWorstCaseProgress(null);
+    setWorstCase(null);
+  };
 
   const handleCalculate = (data: InputData) => {
-    const calculatedResults = performCalculations(data);
-    setResults(calculatedResults);
+    calculate(data);
+    clearWorstCase();
+    setSelection(null);
+    setCapacity(null);
+  };
+
+  // The search reports the entered pose alongside the worst case so both can be compared
+  const handleFindWorstCase = async (data: InputData) => {
+    calculate(data);
+    clearWorstCase();
+    setSelection(null);
+    setCapacity(null);
+
+    const search = new AbortController();
+    worstCaseSearch.current = search;
+    setWorstCaseProgress(0);
+    const result = await findWorstCasePoses(data, {
+      signal: search.signal,
+      onProgress: (fraction) => {
+        if (!search.signal.aborted) setWorstCaseProgress(fraction);
+      },
+    });
+    if (search.signal.aborted) return;
+    worstCaseSearch.current = null;
+    setWorstCaseProgress(null);
+    setWorstCase(result);
+  };
+
+  const handleFindMaxPayload = (data: InputData) => {
+    calculate(data);
+    clearWorstCase();
+    setSelection(null);
+    setCapacity(solvePayloadCapacity(data));
+  };
+
+  // Designs pinned without results, such as saved ones, are calculated as they are pinned
+  const handlePin = (label: string, design: InputData, pinnedResults?: MotorResult[]) => {
+    const calculation = pinnedResults ? { results: pinnedResults } : performCalculations(design);
+    if ("errors" in calculation) {
+      setPinError(`Could not pin ${label}: ${describeIssues(calculation.errors)}`);
+      return;
+    }
+    setPinError(null);
+    setPinned((previous) => [...previous, { id: createEntryId(), label, design, results: calculation.results }]);
+  };
+
+  // A fresh object each time, so loading the same design again still applies it
+  const handleLoadDesign = (snapshot: DesignSnapshot) => {
+    setDesignToLoad({ ...snapshot });
+  };
+
+  const handleSaveToLibrary = (project: ProjectFile) => {
+    setLibrary((previous) => saveToLibrary(previous, project));
+  };
+
+  // The form has already applied a successful selection and recalculated; a failed one leaves the results as they were
+  const handleSelectMotors = (selectionResult: SelectionResult | { error: string }) => {
+    setSelection(selectionResult);
   };
 
   return (
-    <main className="flex min-h-screen flex-col items-center justify-center p-4 sm:p-8 lg:p-24">
-      <Card className="w-full max-w-full sm:max-w-4xl">
-        <CardHeader>
-          <CardTitle className="text-center text-lg sm:text-xl">
-            6DOF Robotic Arm Torque & Power Calculator
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <CalculatorForm onCalculate={handleCalculate} results={results} />
-          {results && "error" in results ? (
-            <div className="text-red-500 mt-4">{results.error}</div>
-          ) : (
-            results && (
+    <UnitsProvider>
+      <main className="flex min-h-screen flex-col items-center justify-center gap-6 p-4 sm:p-8 lg:p-24 xl:flex-row xl:items-start">
+        <Card className="order-last w-full max-w-full sm:max-w-4xl xl:order-first xl:w-80 xl:shrink-0">
+          <CardHeader>
+            <CardTitle className="text-lg">Design Library</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DesignLibrary
+              designs={library}
+              history={history}
+              onLoad={handleLoadDesign}
+              onPin={handlePin}
+              onDesignsChange={setLibrary}
+              onClearHistory={() => setHistory([])}
+            />
+          </CardContent>
+        </Card>
+        <Card className="w-full max-w-full sm:max-w-4xl">
+          <CardHeader>
+            <CardTitle className="text-center text-lg sm:text-xl">
+              Robotic Arm Torque & Power Calculator
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CalculatorForm
+              onCalculate={handleCalculate}
+              onFindWorstCase={handleFindWorstCase}
+              worstCaseProgress={worstCaseProgress}
+              onFindMaxPayload={handleFindMaxPayload}
+              onSelectMotors={handleSelectMotors}
+              onSaveToLibrary={handleSaveToLibrary}
+              designToLoad={designToLoad}
+              issues={issues}
+            />
+            <DesignIssueList issues={issues} />
+            {results && "error" in results ? (
+              <div className="text-red-500 mt-4">{results.error}</div>
+            ) : (
+              results && (
+                <div className="overflow-x-auto mt-4">
+                  <ResultsTable results={results as MotorResult[]} />
+                  {calculatedDesign && (
+                    <RatingCheckTable motors={calculatedDesign.motors} results={results as MotorResult[]} />
+                  )}
+                  <TorqueBreakdown results={results as MotorResult[]} />
+                  {calculatedDesign && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="mt-4"
+                      onClick={() =>
+                        handlePin(`Design ${pinned.length + 1}`, calculatedDesign, results as MotorResult[])
+                      }
+                    >
+                      Pin for Comparison
+                    </Button>
+                  )}
+                  {calculatedDesign && <SensitivityAnalysis design={calculatedDesign} />}
+                </div>
+              )
+            )}
+            {/* Both calculations validate the same inputs, so any error is already shown above */}
+            {worstCase && !("error" in worstCase) && (
+              <div className="overflow-x-auto mt-4">
+                <WorstCaseTable results={worstCase} />
+              </div>
+            )}
+            {capacity &&
+              ("error" in capacity ? (
+                <div className="text-red-500 mt-4">{capacity.error}</div>
+              ) : (
+                <div className="overflow-x-auto mt-4">
+                  <PayloadCapacityTable capacity={capacity} />
+                </div>
+              ))}
+            {selection &&
+              ("error" in selection ? (
+                <div className="text-red-500 mt-4">{selection.error}</div>
+              ) : (
+                <div className="overflow-x-auto mt-4">
+                  <MotorSelectionTable selection={selection} />
+                </div>
+              ))}
+            {pinError && <div className="text-red-500 mt-4">{pinError}</div>}
+            {pinned.length > 0 && (
               <div className="overflow-x-auto mt-4">
-                <ResultsTable results={results as MotorResult[]} />
+                <ComparisonView pinned={pinned} onChange={setPinned} />
               </div>
-            )
-          )}
-        </CardContent>
-      </Card>
-    </main>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </UnitsProvider>
   );
 }
@@ -0,0 +1,93 @@
+import { readFileSync, writeFileSync } from "fs";
+import { extname } from "path";
+import * as XLSX from "xlsx";
+import { batchPassed, readDesigns, resultTable, runDesign, type BatchResult } from "../lib/batch";
+
+/*
+ * Batch calculator: runs every design in the given files through the same
+ * engine as the web app and writes one results table.
+ *
+ *   npm run batch -- <design files...> [--output results.csv|.json|.xlsx] [--format csv|json|xlsx]
+ *
+ * Exits with 1 if any design is invalid or any motor is over a rating entered
+ * for it, and 2 for a usage error.
+ */
+
+const USAGE = "Usage: npm run batch -- <design files...> [--output <file>] [--format csv|json|xlsx]";
+const FORMATS = ["csv", "json", "xlsx"] as const;
+
+type Format = (typeof FORMATS)[number];
+
+function fail(message: string): never {
+  console.error(`${message}\n${USAGE}`);
+  process.exit(2);
+}
+
+function parseArguments(args: string[]) {
+  const files: string[] = [];
+  let output: string | undefined;
+  let format: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--output" || arg === "-o") output = args[++i] ?? fail(`${arg} needs a file name`);
+    else if (arg === "--format" || arg === "-f") format = args[++i] ?? fail(`${arg} needs a format`);
+    else if (arg === "--help" || arg === "-h") {
+      console.log(USAGE);
+      process.exit(0);
+    } else if (arg.startsWith("-")) fail(`Unknown option ${arg}`);
+    else files.push(arg);
+  }
+  if (files.length === 0) fail("No design files given");
+
+  // The output file's extension picks the format unless one is given
+  format ??= output ? extname(output).slice(1).toLowerCase() : "csv";
+  if (!FORMATS.includes(format as Format)) fail(`Unknown output format "${format}"`);
+  if (format === "xlsx" && !output) fail("XLSX output needs --output");
+  return { files, output, format: format as Format };
+}
+
+function write(results: BatchResult[], format: Format, output: string | undefined) {
+  if (format === "xlsx") {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(resultTable(results)), "Results");
+    XLSX.writeFile(workbook, output!);
+    return;
+  }
+  const text =
+    format === "json"
+      ? JSON.stringify(results, null, 2)
+      : XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(resultTable(results)));
+  if (output) writeFileSync(output, text + "\n");
+  else process.stdout.write(text + "\n");
+}
+
+function main() {
+  const { files, output, format } = parseArguments(process.argv.slice(2));
+
+  const results = files.flatMap((file) => {
+    let contents: Buffer;
+    try {
+      contents = readFileSync(file);
+    } catch (error) {
+      return [{ name: file, errors: [`Could not read the file: ${(error as Error).message}`], status: null }];
+    }
+    const buffer = contents.buffer.slice(contents.byteOffset, contents.byteOffset + contents.byteLength) as ArrayBuffer;
+    return readDesigns(file, buffer).map(runDesign);
+  });
+
+  write(results, format, output);
+
+  const invalid = results.filter((result) => result.errors.length > 0).length;
+  const over = results.filter((result) => result.status === "fail").length;
+  const warned = results.filter((result) => result.status === "warn").length;
+  console.error(
+    `${results.length} design(s): ${invalid} invalid, ${over} over a motor rating, ${warned} close to a rating`
+  );
+  for (const result of results) {
+    for (const error of result.errors) console.error(`${result.name}: ${error}`);
+    for (const warning of result.warnings ?? []) console.error(`${result.name}: warning: ${warning}`);
+  }
+  process.exitCode = batchPassed(results) ? 0 : 1;
+}
+
+main();
@@ -0,0 +1,112 @@
+import { useWatch, type Control } from "react-hook-form";
+import { useUnits } from "@/components/UnitsProvider";
+import {
+  LOAD_COLORS,
+  fitArmDiagram,
+  loadColor,
+  safeLayoutArmDiagram,
+  scaleBarLength,
+  type Point2,
+} from "@/lib/armDiagram";
+import type { InputValues } from "@/lib/schema";
+import { formatQuantity, fromSI, unitLabel } from "@/lib/units";
+
+interface ArmDiagramProps {
+  control: Control<InputValues>;
+}
+
+const WIDTH = 640;
+const HEIGHT = 360;
+const PADDING = 24;
+/** Screen length of the heaviest weight's arrow; the others are drawn to the same scale. */
+const ARROW_LENGTH = 60;
+
+/** Side view of the arm at its entered pose, redrawn as the form changes. */
+export default function ArmDiagram({ control }: ArmDiagramProps) {
+  const { units } = useUnits();
+  const values = useWatch({ control }) as InputValues;
+  const diagram = safeLayoutArmDiagram(values);
+
+  if ("error" in diagram) {
+    return (
+      <div className="rounded-md border p-4 text-sm text-muted-foreground">Arm diagram unavailable: {diagram.error}</div>
+    );
+  }
+
+  // Fit everything, including the base, with room below for the weight arrows
+  const { scale, toScreen } = fitArmDiagram(diagram, WIDTH, HEIGHT, PADDING, ARROW_LENGTH);
+
+  const maxWeight = Math.max(...diagram.loads.map((load) => load.weight), 0);
+  const [, groundY] = toScreen([0, 0]);
+  const [baseX] = toScreen([0, 0]);
+  const barLength = scaleBarLength((WIDTH - 2 * PADDING) / scale / 4);
+
+  const segment = ([a, b]: [Point2, Point2]) => {
+    const [x1, y1] = toScreen(a);
+    const [x2, y2] = toScreen(b);
+    return { x1, y1, x2, y2 };
+  };
+
+  return (
+    <div className="rounded-md border p-4">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Side view of the arm">
+        <line x1={0} x2={WIDTH} y1={groundY} y2={groundY} stroke="currentColor" strokeOpacity={0.2} strokeDasharray="4 4" />
+        <rect x={baseX - 14} y={groundY} width={28} height={10} fill="currentColor" fillOpacity={0.3} />
+        {diagram.links.map((link, k) => (
+          <line key={`link${k}`} {...segment(link)} stroke="#64748b" strokeWidth={6} strokeLinecap="round">
+            <title>Link {k + 1}</title>
+          </line>
+        ))}
+        {diagram.motors.map((motor, k) => (
+          <line key={`motor${k}`} {...segment(motor)} stroke="#1e293b" strokeOpacity={0.8} strokeWidth={14}>
+            <title>Motor {k + 1} housing</title>
+          </line>
+        ))}
+        {diagram.joints.map((joint, k) => {
+          const [cx, cy] = toScreen(joint);
+          return (
+            <circle key={`joint${k}`} cx={cx} cy={cy} r={6} fill="white" stroke="#1e293b" strokeWidth={2}>
+              <title>Joint {k + 1}</title>
+            </circle>
+          );
+        })}
+        {diagram.loads.map((load) => {
+          const [cx, cy] = toScreen(load.position);
+          const color = loadColor(load.source);
+          const length = maxWeight > 0 ? Math.max(8, (load.weight / maxWeight) * ARROW_LENGTH) : 0;
+          return (
+            <g key={load.source}>
+              <title>
+                {load.source}: {formatQuantity(units, "force", load.weight)} {unitLabel(units, "force")} at its centre of
+                mass
+              </title>
+              <line x1={cx} y1={cy} x2={cx} y2={cy + length - 5} stroke={color} strokeWidth={2} />
+              <polygon points={`${cx - 4},${cy + length - 6} ${cx + 4},${cy + length - 6} ${cx},${cy + length}`} fill={color} />
+              {/* Centre of mass symbol: a circle with opposite quarters filled */}
+              <circle cx={cx} cy={cy} r={5} fill="white" stroke={color} strokeWidth={1.5} />
+              <path d={`M${cx},${cy} L${cx + 5},${cy} A5,5 0 0,1 ${cx},${cy + 5} Z`} fill={color} />
+              <path d={`M${cx},${cy} L${cx - 5},${cy} A5,5 0 0,1 ${cx},${cy - 5} Z`} fill={color} />
+            </g>
+          );
+        })}
+        <g transform={`translate(${PADDING} ${HEIGHT - 12})`}>
+          <line x1={0} x2={barLength * scale} y1={0} y2={0} stroke="currentColor" strokeWidth={2} />
+          <line x1={0} x2={0} y1={-4} y2={4} stroke="currentColor" />
+          <line x1={barLength * scale} x2={barLength * scale} y1={-4} y2={4} stroke="currentColor" />
+          <text x={barLength * scale + 6} y={0} dominantBaseline="middle" fontSize={11} fill="currentColor">
+            {Number(fromSI(units, "length", barLength).toPrecision(3))} {unitLabel(units, "length")}
+          </text>
+        </g>
+      </svg>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+        {Object.entries(LOAD_COLORS).map(([label, color]) => (
+          <span key={label} className="flex items-center gap-1">
+            <span className="inline-block h-2 w-4 rounded-sm" style={{ backgroundColor: color }} />
+            {label} centre of mass and weight
+          </span>
+        ))}
+        <span className="text-muted-foreground">Arrows are to scale with each other. Hover for values.</span>
+      </div>
+    </div>
+  );
+}
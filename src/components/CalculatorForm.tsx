@@ -1,377 +1,808 @@
 "use client";
 
-import { useForm, FormProvider } from "react-hook-form";
-import { z } from "zod";
+import { useEffect, useRef, useState } from "react";
+import { useForm, useFieldArray, useWatch, FormProvider, type FieldPath, type Control } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowDown, ArrowUp, BookmarkPlus, FileText, FolderOpen, Link, Plus, Save, Trash2, Upload } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { useUnits } from "@/components/UnitsProvider";
+import { NativeSelect } from "@/components/ui/native-select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ArmDiagram from "@/components/ArmDiagram";
+import MotorCatalog from "@/components/MotorCatalog";
+import ProjectDetails from "@/components/ProjectDetails";
+import UnitSettingsPanel from "@/components/UnitSettingsPanel";
+import { JOINT_AXES } from "@/lib/kinematics";
+import {
+  BUILT_IN_MATERIALS,
+  createMaterialId,
+  loadCustomMaterials,
+  saveCustomMaterials,
+  type Material,
+} from "@/lib/materials";
+import { buildDesignReport } from "@/lib/designReport";
+import { BUILT_IN_MOTORS, loadCustomMotors, saveCustomMotors, type CatalogMotor } from "@/lib/motorCatalog";
+import { selectMotors, type SelectionResult } from "@/lib/motorSelection";
+import {
+  EMPTY_METADATA,
+  PROJECT_FILE_EXTENSION,
+  createProjectFile,
+  parseProjectFile,
+  serializeProjectFile,
+  type DesignSnapshot,
+  type ProjectFile,
+  type ProjectMetadata,
+} from "@/lib/projectFile";
+import { MAX_JOINTS, emptyGearStage, emptyLink, emptyMotor, inputSchema, type InputValues } from "@/lib/schema";
+import { CROSS_SECTIONS, CROSS_SECTION_LABELS, EXTRUSION_PROFILE_NAMES } from "@/lib/sections";
+import { formatImportIssue, importSpreadsheet, type ImportIssue } from "@/lib/spreadsheetImport";
+import { encodeProject, shareUrl } from "@/lib/shareLink";
+import { buildWorkbook } from "@/lib/workbookExport";
+import type { DesignIssue } from "@/lib/validation";
+import { fromSI, toSI, unitLabel, type Quantity, type UnitSettings } from "@/lib/units";
 import * as XLSX from "xlsx";
 
-// Define schema with Zod
-const formSchema = z.object({
-  m_payload: z.number().min(0, "Payload mass cannot be negative"),
-  density: z.number().min(0, "Density must be positive"),
-  links: z
-    .array(
-      z.object({
-        length: z.number().min(0, "Length must be positive"),
-        radius: z.number().min(0, "Radius must be positive"),
-      })
-    )
-    .length(6, "Exactly 6 links are required"),
-  motors: z
-    .array(
-      z.object({
-        mass: z.number().min(0, "Mass cannot be negative"),
-        bodyLength: z.number().min(0, "Body length cannot be negative"),
-        pivotPosition: z.number().min(0, "Pivot position cannot be negative"),
-        rpm: z.number().min(0, "RPM cannot be negative"),
-        gearRatio: z.number().min(0, "Gear ratio cannot be negative"),
-        safetyFactor: z.number().min(1, "Safety factor must be at least 1"),
-      })
-    )
-    .length(6, "Exactly 6 motors are required"),
+type FormValues = InputValues;
+
+const emptyValues = (joints: number, customMaterials: Material[] = []): FormValues => ({
+  m_payload: 0,
+  customMaterials,
+  links: Array.from({ length: joints }, emptyLink),
+  motors: Array.from({ length: joints }, emptyMotor),
 });
 
-type FormValues = z.infer<typeof formSchema>;
+// An SI value in the chosen unit, rounded so unit round trips do not show floating-point noise
+const displayValue = (units: UnitSettings, quantity: Quantity, value: number) =>
+  Number(fromSI(units, quantity, value).toPrecision(12));
+
+function downloadFile(fileName: string, contents: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
 interface CalculatorFormProps {
   onCalculate: (data: FormValues) => void;
-  results: any; // Will be MotorResult[] | { error: string } | null
+  onFindWorstCase: (data: FormValues) => void;
+  /** Fraction of the running worst-case search done, or null when none is running. */
+  worstCaseProgress: number | null;
+  onFindMaxPayload: (data: FormValues) => void;
+  onSelectMotors: (selection: SelectionResult | { error: string }) => void;
+  onSaveToLibrary: (project: ProjectFile) => void;
+  /** A design to load into the form, such as one restored from a share link or the library. */
+  designToLoad: DesignSnapshot | null;
+  /** Problems the last calculation found; errors are shown on the inputs they concern. */
+  issues: DesignIssue[];
+}
+
+interface NumberFieldProps {
+  control: Control<FormValues>;
+  name: FieldPath<FormValues>;
+  label: string;
+  /** Physical quantity of the value; it is stored in SI and shown in the chosen unit. */
+  quantity?: Quantity;
+}
+
+function NumberField({ control, name, label, quantity }: NumberFieldProps) {
+  const { units } = useUnits();
+  const display = (value: number) => (quantity ? displayValue(units, quantity, value) : value);
+  const store = (value: number) => (quantity ? toSI(units, quantity, value) : value);
+
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{quantity ? `${label} (${unitLabel(units, quantity)})` : label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              {...field}
+              value={typeof field.value === "number" ? display(field.value) : ""}
+              onChange={(e) => field.onChange(e.target.value === "" ? 0 : store(parseFloat(e.target.value) || 0))}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+interface TextFieldProps {
+  control: Control<FormValues>;
+  name: FieldPath<FormValues>;
+  label: string;
+}
+
+function TextField({ control, name, label }: TextFieldProps) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input {...field} value={typeof field.value === "string" ? field.value : ""} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+interface SelectFieldProps {
+  control: Control<FormValues>;
+  name: FieldPath<FormValues>;
+  label: string;
+  options: readonly string[];
+  labels?: Record<string, string>;
+}
+
+function SelectField({ control, name, label, options, labels }: SelectFieldProps) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <NativeSelect {...field} value={String(field.value)}>
+              {options.map((option) => (
+                <option key={option} value={option}>
+                  {labels?.[option] ?? option.charAt(0).toUpperCase() + option.slice(1)}
+                </option>
+              ))}
+            </NativeSelect>
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+interface LinkSectionFieldsProps {
+  control: Control<FormValues>;
+  index: number;
+}
+
+// Only the dimensions the selected cross-section uses are shown
+function LinkSectionFields({ control, index: i }: LinkSectionFieldsProps) {
+  const { units } = useUnits();
+  const crossSection = useWatch({ control, name: `links.${i}.crossSection` });
+  const customMaterials = useWatch({ control, name: "customMaterials" });
+  const materials = [...BUILT_IN_MATERIALS, ...customMaterials];
+  const density = (value: number) => `${displayValue(units, "density", value)} ${unitLabel(units, "density")}`;
+
+  return (
+    <>
+      {crossSection !== "mass" && (
+        <SelectField
+          control={control}
+          name={`links.${i}.material`}
+          label="Material"
+          options={materials.map((material) => material.id)}
+          labels={Object.fromEntries(
+            materials.map((material) => [material.id, `${material.name} (${density(material.density)})`])
+          )}
+        />
+      )}
+      <SelectField
+        control={control}
+        name={`links.${i}.crossSection`}
+        label="Cross-Section"
+        options={CROSS_SECTIONS}
+        labels={CROSS_SECTION_LABELS}
+      />
+      {(crossSection === "solid" || crossSection === "tube") && (
+        <NumberField control={control} name={`links.${i}.radius`} label="Outer Radius" quantity="length" />
+      )}
+      {(crossSection === "box" || crossSection === "printed") && (
+        <>
+          <NumberField control={control} name={`links.${i}.width`} label="Outer Width" quantity="length" />
+          <NumberField control={control} name={`links.${i}.height`} label="Outer Height" quantity="length" />
+        </>
+      )}
+      {(crossSection === "tube" || crossSection === "box" || crossSection === "printed") && (
+        <NumberField
+          control={control}
+          name={`links.${i}.wallThickness`}
+          label={
+            crossSection === "printed"
+              ? "Shell Thickness"
+              : crossSection === "box"
+                ? "Wall Thickness (0 = solid)"
+                : "Wall Thickness"
+          }
+          quantity="length"
+        />
+      )}
+      {crossSection === "printed" && <NumberField control={control} name={`links.${i}.infill`} label="Infill (%)" />}
+      {crossSection === "extrusion" && (
+        <SelectField control={control} name={`links.${i}.profile`} label="Profile" options={EXTRUSION_PROFILE_NAMES} />
+      )}
+      {crossSection === "mass" && (
+        <>
+          <NumberField control={control} name={`links.${i}.mass`} label="Mass" quantity="mass" />
+          <NumberField
+            control={control}
+            name={`links.${i}.centerOfMass`}
+            label="Centre of Mass from Link Start"
+            quantity="length"
+          />
+        </>
+      )}
+    </>
+  );
+}
+
+interface GearStagesFieldsProps {
+  control: Control<FormValues>;
+  index: number;
 }
 
-export default function CalculatorForm({ onCalculate, results }: CalculatorFormProps) {
+function GearStagesFields({ control, index: i }: GearStagesFieldsProps) {
+  const stages = useFieldArray({ control, name: `motors.${i}.gearStages` });
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="text-sm font-medium">Gear Stages (from the motor side; none = direct drive)</div>
+      {stages.fields.map((item, k) => (
+        <div key={item.id} className="grid gap-4 sm:grid-cols-4 sm:items-end">
+          <NumberField control={control} name={`motors.${i}.gearStages.${k}.ratio`} label={`Stage ${k + 1} Ratio`} />
+          <NumberField control={control} name={`motors.${i}.gearStages.${k}.efficiency`} label="Efficiency (%)" />
+          <NumberField control={control} name={`motors.${i}.gearStages.${k}.mass`} label="Mass" quantity="mass" />
+          <Button type="button" variant="ghost" size="sm" onClick={() => stages.remove(k)}>
+            <Trash2 /> Remove Stage
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => stages.append(emptyGearStage())}>
+        <Plus /> Add Stage
+      </Button>
+    </div>
+  );
+}
+
+interface JointControlsProps {
+  index: number;
+  count: number;
+  onMove: (from: number, to: number) => void;
+  onRemove: (index: number) => void;
+}
+
+function JointControls({ index, count, onMove, onRemove }: JointControlsProps) {
+  return (
+    <div className="flex space-x-2">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={index === 0}
+        onClick={() => onMove(index, index - 1)}
+      >
+        <ArrowUp /> Move Up
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={index === count - 1}
+        onClick={() => onMove(index, index + 1)}
+      >
+        <ArrowDown /> Move Down
+      </Button>
+      <Button type="button" variant="ghost" size="sm" disabled={count <= 1} onClick={() => onRemove(index)}>
+        <Trash2 /> Remove Joint
+      </Button>
+    </div>
+  );
+}
+
+export default function CalculatorForm({
+  onCalculate,
+  onFindWorstCase,
+  worstCaseProgress,
+  onFindMaxPayload,
+  onSelectMotors,
+  onSaveToLibrary,
+  designToLoad,
+  issues,
+}: CalculatorFormProps) {
   const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      m_payload: 0,
-      density: 0,
-      links: Array.from({ length: 6 }, () => ({ length: 0, radius: 0 })),
-      motors: Array.from({ length: 6 }, () => ({
-        mass: 0,
-        bodyLength: 0,
-        pivotPosition: 0,
-        rpm: 0,
-        gearRatio: 0,
-        safetyFactor: 1,
-      })),
-    },
+    resolver: zodResolver(inputSchema),
+    defaultValues: emptyValues(6),
   });
 
+  // A joint is a link together with the motor driving it, so both arrays are
+  // always added to, removed from and reordered in lockstep.
+  const { units, setUnits } = useUnits();
+  const linkFields = useFieldArray({ control: form.control, name: "links" });
+  const materialFields = useFieldArray({ control: form.control, name: "customMaterials" });
+  const customMaterials = useWatch({ control: form.control, name: "customMaterials" });
+  const [materialsLoaded, setMaterialsLoaded] = useState(false);
+  const [customMotors, setCustomMotors] = useState<CatalogMotor[]>([]);
+  const motorFields = useFieldArray({ control: form.control, name: "motors" });
+  const importInput = useRef<HTMLInputElement>(null);
+  const [importErrors, setImportErrors] = useState<ImportIssue[]>([]);
+  const projectInput = useRef<HTMLInputElement>(null);
+  const [metadata, setMetadata] = useState<ProjectMetadata>(EMPTY_METADATA);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const appliedDesign = useRef<DesignSnapshot | null>(null);
+  const jointCount = linkFields.fields.length;
+
+  // Custom materials are a personal library rather than part of one design,
+  // so they are kept in the browser and survive resets and reloads.
+  useEffect(() => {
+    form.setValue("customMaterials", loadCustomMaterials());
+    setMaterialsLoaded(true);
+  }, [form]);
+
+  useEffect(() => {
+    if (materialsLoaded) saveCustomMaterials(customMaterials);
+  }, [customMaterials, materialsLoaded]);
+
+  useEffect(() => {
+    setCustomMotors(loadCustomMotors());
+  }, []);
+
+  // Calculation errors go on the inputs they concern, replacing those of the previous calculation
+  const issuePaths = useRef<FieldPath<FormValues>[]>([]);
+  useEffect(() => {
+    form.clearErrors(issuePaths.current);
+    issuePaths.current = [];
+    for (const issue of issues) {
+      if (issue.severity !== "error" || !issue.path) continue;
+      const path = issue.path as FieldPath<FormValues>;
+      form.setError(path, { type: issue.code, message: issue.message });
+      issuePaths.current.push(path);
+    }
+  }, [issues, form]);
+
+  const handleCustomMotorsChange = (motors: CatalogMotor[]) => {
+    setCustomMotors(motors);
+    saveCustomMotors(motors);
+  };
+
+  // Applies the chosen motors' masses, lengths and ratings to the form before showing the results
+  const handleSelectMotors = (data: FormValues) => {
+    const selection = selectMotors(data, [...BUILT_IN_MOTORS, ...customMotors]);
+    if (!("error" in selection)) {
+      selection.data.motors.forEach((motor, i) => {
+        form.setValue(`motors.${i}.mass`, motor.mass);
+        form.setValue(`motors.${i}.bodyLength`, motor.bodyLength);
+        form.setValue(`motors.${i}.ratedTorque`, motor.ratedTorque);
+        form.setValue(`motors.${i}.peakTorque`, motor.peakTorque);
+        form.setValue(`motors.${i}.maxSpeed`, motor.maxSpeed);
+      });
+      onCalculate(form.getValues());
+    }
+    onSelectMotors(selection);
+  };
+
+  const handleAddMaterial = () => {
+    materialFields.append({ id: createMaterialId(), name: "", density: 0, youngsModulus: 0, yieldStrength: 0 });
+  };
+
+  const handleAddJoint = () => {
+    linkFields.append(emptyLink());
+    motorFields.append(emptyMotor());
+  };
+
+  const handleRemoveJoint = (index: number) => {
+    linkFields.remove(index);
+    motorFields.remove(index);
+  };
+
+  const handleMoveJoint = (from: number, to: number) => {
+    linkFields.move(from, to);
+    motorFields.move(from, to);
+  };
+
   const onSubmit = (data: FormValues) => {
     onCalculate(data);
   };
 
   const handleFillDummyValues = () => {
+    // Straight-out pose with ±90° limits and a moderate move profile on every joint
+    const dummyMotion = { angle: 0, axis: "pitch", minAngle: -90, maxAngle: 90, speed: 90, acceleration: 180 } as const;
+    // Single-stage planetary reducers
+    const gearbox = (ratio: number) => [{ ratio, efficiency: 95, mass: 0 }];
+    // Continuous and peak shaft torque of the installed motors, all good to 3000 rpm
+    const ratings = (ratedTorque: number, peakTorque: number) => ({ ratedTorque, peakTorque, maxSpeed: 3000 });
     form.reset({
       m_payload: 5, // 5 kg payload
-      density: 2700, // Aluminum density in kg/m³
+      customMaterials: form.getValues("customMaterials"),
       links: [
-        { length: 0.5, radius: 0.02 },
-        { length: 0.4, radius: 0.02 },
-        { length: 0.3, radius: 0.015 },
-        { length: 0.3, radius: 0.015 },
-        { length: 0.2, radius: 0.01 },
-        { length: 0.1, radius: 0.01 },
+        { ...emptyLink(), length: 0.5, radius: 0.02 },
+        { ...emptyLink(), length: 0.4, radius: 0.02 },
+        { ...emptyLink(), length: 0.3, radius: 0.015 },
+        { ...emptyLink(), length: 0.3, radius: 0.015 },
+        { ...emptyLink(), length: 0.2, radius: 0.01 },
+        { ...emptyLink(), length: 0.1, radius: 0.01 },
       ],
       motors: [
-        { mass: 2, bodyLength: 0.1, pivotPosition: 0, rpm: 100, gearRatio: 10, safetyFactor: 1.5 },
-        { mass: 1.5, bodyLength: 0.08, pivotPosition: 0.5, rpm: 120, gearRatio: 8, safetyFactor: 1.5 },
-        { mass: 1.2, bodyLength: 0.07, pivotPosition: 0.9, rpm: 150, gearRatio: 6, safetyFactor: 1.5 },
-        { mass: 1, bodyLength: 0.06, pivotPosition: 1.2, rpm: 180, gearRatio: 5, safetyFactor: 1.5 },
-        { mass: 0.8, bodyLength: 0.05, pivotPosition: 1.5, rpm: 200, gearRatio: 4, safetyFactor: 1.5 },
-        { mass: 0.5, bodyLength: 0.04, pivotPosition: 1.7, rpm: 250, gearRatio: 3, safetyFactor: 1.5 },
+        { mass: 2, bodyLength: 0.1, pivotPosition: 0, rpm: 100, gearStages: gearbox(10), ...ratings(40, 80), safetyFactor: 1.5, ...dummyMotion },
+        { mass: 1.5, bodyLength: 0.08, pivotPosition: 0.5, rpm: 120, gearStages: gearbox(8), ...ratings(25, 50), safetyFactor: 1.5, ...dummyMotion },
+        { mass: 1.2, bodyLength: 0.07, pivotPosition: 0.9, rpm: 150, gearStages: gearbox(6), ...ratings(18, 36), safetyFactor: 1.5, ...dummyMotion },
+        { mass: 1, bodyLength: 0.06, pivotPosition: 1.2, rpm: 180, gearStages: gearbox(5), ...ratings(12, 24), safetyFactor: 1.5, ...dummyMotion },
+        { mass: 0.8, bodyLength: 0.05, pivotPosition: 1.5, rpm: 200, gearStages: gearbox(4), ...ratings(8, 16), safetyFactor: 1.5, ...dummyMotion },
+        { mass: 0.5, bodyLength: 0.04, pivotPosition: 1.7, rpm: 250, gearStages: gearbox(3), ...ratings(3, 6), safetyFactor: 1.5, ...dummyMotion },
       ],
     });
     onCalculate(form.getValues());
   };
 
   const handleResetValues = () => {
+    form.reset(emptyValues(jointCount, form.getValues("customMaterials")));
+    onCalculate(form.getValues());
+  };
+
+  // Nothing in the form changes unless the whole file is valid
+  const handleImport = async (file: File) => {
+    const imported = importSpreadsheet(await file.arrayBuffer(), form.getValues("customMaterials"));
+    if ("errors" in imported) {
+      setImportErrors(imported.errors);
+      return;
+    }
+    setImportErrors([]);
+    form.reset(imported.data);
+    onCalculate(form.getValues());
+  };
+
+  // The project name made safe for a file name
+  const fileName = () => metadata.name.trim().replace(/[^\w-]+/g, "_") || "arm-design";
+
+  const handleSaveProject = () => {
+    const project = createProjectFile(form.getValues(), { ...metadata, units });
+    setMetadata(project.metadata);
+    downloadFile(`${fileName()}${PROJECT_FILE_EXTENSION}`, serializeProjectFile(project), "application/json");
+  };
+
+  const handleSaveToLibrary = () => {
+    if (!metadata.name.trim()) {
+      setProjectError("Enter a project name on the General tab to save the design to the library");
+      return;
+    }
+    setProjectError(null);
+    onSaveToLibrary(createProjectFile(form.getValues(), { ...metadata, units }));
+  };
+
+  // The design's custom materials join the browser library, replacing older copies with the same id.
+  // Designs without metadata of their own, such as past runs, keep the current project details.
+  const applyDesign = ({ design, metadata: opened }: DesignSnapshot) => {
+    const ids = new Set(design.customMaterials.map((material) => material.id));
     form.reset({
-      m_payload: 0,
-      density: 0,
-      links: Array.from({ length: 6 }, () => ({ length: 0, radius: 0 })),
-      motors: Array.from({ length: 6 }, () => ({
-        mass: 0,
-        bodyLength: 0,
-        pivotPosition: 0,
-        rpm: 0,
-        gearRatio: 0,
-        safetyFactor: 1,
-      })),
+      ...design,
+      customMaterials: [
+        ...form.getValues("customMaterials").filter((material) => !ids.has(material.id)),
+        ...design.customMaterials,
+      ],
     });
+    if (opened) {
+      setMetadata(opened);
+      setUnits(opened.units);
+    }
     onCalculate(form.getValues());
   };
 
-  const handleExportToExcel = () => {
-    const workbook = XLSX.utils.book_new();
-
-    if (results && !("error" in results)) {
-      const resultData = [
-        ["Motor", "Torque Total (Nm)", "Torque SF (Nm)", "Torque Before (Nm)", "Torque Before SF (Nm)", "Power (W)", "Power SF (W)"],
-        ...results.map((result: any, i: number) => [
-          i + 1,
-          result.T_total.toFixed(2),
-          result.T_sf.toFixed(2),
-          result.T_before.toFixed(2),
-          result.T_before_sf.toFixed(2),
-          result.P.toFixed(2),
-          result.P_sf.toFixed(2),
-        ]),
-      ];
-      const resultSheet = XLSX.utils.aoa_to_sheet(resultData);
-      XLSX.utils.book_append_sheet(workbook, resultSheet, "Results");
-    } else {
-      const resultData = [
-        ["Motor", "Torque Total (Nm)", "Torque SF (Nm)", "Torque Before (Nm)", "Torque Before SF (Nm)", "Power (W)", "Power SF (W)"],
-      ];
-      const resultSheet = XLSX.utils.aoa_to_sheet(resultData);
-      XLSX.utils.book_append_sheet(workbook, resultSheet, "Results");
+  const handleOpenProject = async (file: File) => {
+    try {
+      applyDesign(parseProjectFile(await file.text()));
+      setProjectError(null);
+    } catch (error: any) {
+      setProjectError(error.message || "Could not open the project file");
     }
+  };
+
+  // Each design handed in is applied once
+  useEffect(() => {
+    if (designToLoad && designToLoad !== appliedDesign.current) {
+      appliedDesign.current = designToLoad;
+      applyDesign(designToLoad);
+    }
+  });
+
+  // The link is also put in the address bar, where it can be copied if the clipboard is unavailable
+  const handleCopyLink = async () => {
+    let url: string;
+    try {
+      const code = await encodeProject(createProjectFile(form.getValues(), { ...metadata, units }));
+      url = shareUrl(window.location.href, code);
+    } catch (error: any) {
+      setProjectError(`Could not create the link: ${error.message || "this browser cannot compress the design"}`);
+      return;
+    }
+    window.history.replaceState(null, "", url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setProjectError(null);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      setProjectError("Could not copy the link; copy it from the address bar instead");
+    }
+  };
 
-    XLSX.writeFile(workbook, "robotic_arm_results.xlsx");
+  // Exports what is in the form now, so the workbook's inputs and results always match
+  const handleExportToExcel = () => {
+    XLSX.writeFile(buildWorkbook(form.getValues(), units), "robotic_arm_results.xlsx");
+  };
+
+  const handleDownloadReport = () => {
+    const report = buildDesignReport(form.getValues(), { ...metadata, units });
+    downloadFile(`${fileName()}-report.pdf`, report, "application/pdf");
   };
 
   return (
     <FormProvider {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
         <Tabs defaultValue="general" className="w-full">
-          <TabsList className="flex flex-col sm:grid sm:grid-cols-3 w-full">
+          <TabsList className="flex flex-col sm:grid sm:grid-cols-5 w-full">
             <TabsTrigger value="general">General</TabsTrigger>
             <TabsTrigger value="links">Links</TabsTrigger>
             <TabsTrigger value="motors">Motors</TabsTrigger>
+            <TabsTrigger value="materials">Materials</TabsTrigger>
+            <TabsTrigger value="catalog">Motor Catalog</TabsTrigger>
           </TabsList>
 
           {/* General Tab */}
           <TabsContent value="general" className="space-y-4">
-            <FormField
-              control={form.control}
-              name="m_payload"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Payload Mass (kg)</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      {...field}
-                      value={field.value ?? ""}
-                      onChange={(e) => field.onChange(e.target.value === "" ? 0 : parseFloat(e.target.value) || 0)}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            <FormField
-              control={form.control}
-              name="density"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Link Material Density (kg/m³)</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      {...field}
-                      value={field.value ?? ""}
-                      onChange={(e) => field.onChange(e.target.value === "" ? 0 : parseFloat(e.target.value) || 0)}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <ProjectDetails metadata={metadata} onChange={setMetadata} />
+            <NumberField control={form.control} name="m_payload" label="Payload Mass" quantity="mass" />
+            <UnitSettingsPanel />
           </TabsContent>
 
           {/* Links Tab */}
           <TabsContent value="links" className="space-y-4">
             <Accordion type="single" collapsible className="w-full">
-              {Array.from({ length: 6 }).map((_, i) => (
-                <AccordionItem key={i} value={`link-${i}`}>
+              {linkFields.fields.map((item, i) => (
+                <AccordionItem key={item.id} value={item.id}>
                   <AccordionTrigger>Link {i + 1}</AccordionTrigger>
                   <AccordionContent>
                     <div className="space-y-4 sm:space-y-6">
-                      <FormField
-                        control={form.control}
-                        name={`links.${i}.length`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Length (m)</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                {...field}
-                                value={field.value ?? ""}
-                                onChange={(e) => field.onChange(e.target.value === "" ? 0 : parseFloat(e.target.value) || 0)}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name={`links.${i}.radius`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Radius (m)</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                {...field}
-                                value={field.value ?? ""}
-                                onChange={(e) => field.onChange(e.target.value === "" ? 0 : parseFloat(e.target.value) || 0)}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
+                      <NumberField control={form.control} name={`links.${i}.length`} label="Length" quantity="length" />
+                      <LinkSectionFields control={form.control} index={i} />
+                      <JointControls
+                        index={i}
+                        count={jointCount}
+                        onMove={handleMoveJoint}
+                        onRemove={handleRemoveJoint}
                       />
                     </div>
                   </AccordionContent>
                 </AccordionItem>
               ))}
             </Accordion>
+            <Button type="button" variant="outline" disabled={jointCount >= MAX_JOINTS} onClick={handleAddJoint}>
+              <Plus /> Add Joint
+            </Button>
           </TabsContent>
 
           {/* Motors Tab */}
           <TabsContent value="motors" className="space-y-4">
             <Accordion type="single" collapsible className="w-full">
-              {Array.from({ length: 6 }).map((_, i) => (
-                <AccordionItem key={i} value={`motor-${i}`}>
+              {motorFields.fields.map((item, i) => (
+                <AccordionItem key={item.id} value={item.id}>
                   <AccordionTrigger>Motor {i + 1}</AccordionTrigger>
                   <AccordionContent>
                     <div className="space-y-4 sm:space-y-6">
-                      <FormField
+                      <NumberField control={form.control} name={`motors.${i}.mass`} label="Mass" quantity="mass" />
+                      <NumberField control={form.control} name={`motors.${i}.bodyLength`} label="Body Length" quantity="length" />
+                      <NumberField
                         control={form.control}
-                        name={`motors.${i}.mass`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Mass (kg)</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                {...field}
-                                value={field.value ?? ""}
-                                onChange={(e) => field.onChange(e.target.value === "" ? 0 : parseFloat(e.target.value) || 0)}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
+                        name={`motors.${i}.pivotPosition`}
+                        label="Pivot Position from Base"
+                        quantity="length"
                       />
-                      <FormField
+                      <NumberField control={form.control} name={`motors.${i}.rpm`} label="RPM" />
+                      <GearStagesFields control={form.control} index={i} />
+                      <NumberField
                         control={form.control}
-                        name={`motors.${i}.bodyLength`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Body Length (m)</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                {...field}
-                                value={field.value ?? ""}
-                                onChange={(e) => field.onChange(e.target.value === "" ? 0 : parseFloat(e.target.value) || 0)}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
+                        name={`motors.${i}.ratedTorque`}
+                        label="Rated Continuous Torque at Motor Shaft (0 = unknown)"
+                        quantity="torque"
                       />
-                      <FormField
+                      <NumberField
                         control={form.control}
-                        name={`motors.${i}.pivotPosition`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Pivot Position from Base (m)</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                {...field}
-                                value={field.value ?? ""}
-                                onChange={(e) => field.onChange(e.target.value === "" ? 0 : parseFloat(e.target.value) || 0)}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
+                        name={`motors.${i}.peakTorque`}
+                        label="Rated Peak Torque at Motor Shaft (0 = unknown)"
+                        quantity="torque"
+                      />
+                      <NumberField
+                        control={form.control}
+                        name={`motors.${i}.maxSpeed`}
+                        label="Maximum Motor Speed (RPM, 0 = unknown)"
+                      />
+                      <NumberField control={form.control} name={`motors.${i}.safetyFactor`} label="Safety Factor" />
+                      <SelectField
+                        control={form.control}
+                        name={`motors.${i}.axis`}
+                        label="Joint Axis"
+                        options={JOINT_AXES}
+                      />
+                      <NumberField
+                        control={form.control}
+                        name={`motors.${i}.angle`}
+                        label="Joint Angle (°, 0 = straight out horizontally)"
                       />
-                      <FormField
+                      <NumberField control={form.control} name={`motors.${i}.minAngle`} label="Minimum Joint Angle (°)" />
+                      <NumberField control={form.control} name={`motors.${i}.maxAngle`} label="Maximum Joint Angle (°)" />
+                      <NumberField control={form.control} name={`motors.${i}.speed`} label="Target Joint Speed (°/s)" />
+                      <NumberField
                         control={form.control}
-                        name={`motors.${i}.rpm`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>RPM</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                {...field}
-                                value={field.value ?? ""}
-                                onChange={(e) => field.onChange(e.target.value === "" ? 0 : parseFloat(e.target.value) || 0)}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
+                        name={`motors.${i}.acceleration`}
+                        label="Target Joint Acceleration (°/s²)"
                       />
-                      <FormField
+                      <JointControls
+                        index={i}
+                        count={jointCount}
+                        onMove={handleMoveJoint}
+                        onRemove={handleRemoveJoint}
+                      />
+                    </div>
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+            <Button type="button" variant="outline" disabled={jointCount >= MAX_JOINTS} onClick={handleAddJoint}>
+              <Plus /> Add Joint
+            </Button>
+          </TabsContent>
+
+          {/* Materials Tab */}
+          <TabsContent value="materials" className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Material</TableHead>
+                  <TableHead>Density ({unitLabel(units, "density")})</TableHead>
+                  <TableHead>Young&apos;s Modulus (GPa)</TableHead>
+                  <TableHead>Yield Strength (MPa)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {BUILT_IN_MATERIALS.map((material) => (
+                  <TableRow key={material.id}>
+                    <TableCell>{material.name}</TableCell>
+                    <TableCell>{displayValue(units, "density", material.density)}</TableCell>
+                    <TableCell>{material.youngsModulus}</TableCell>
+                    <TableCell>{material.yieldStrength}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Accordion type="single" collapsible className="w-full">
+              {materialFields.fields.map((item, i) => (
+                <AccordionItem key={item.id} value={item.id}>
+                  <AccordionTrigger>{customMaterials[i]?.name || `Custom Material ${i + 1}`}</AccordionTrigger>
+                  <AccordionContent>
+                    <div className="space-y-4 sm:space-y-6">
+                      <TextField control={form.control} name={`customMaterials.${i}.name`} label="Name" />
+                      <NumberField control={form.control} name={`customMaterials.${i}.density`} label="Density" quantity="density" />
+                      <NumberField
                         control={form.control}
-                        name={`motors.${i}.gearRatio`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Gear Reduction Ratio</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                {...field}
-                                value={field.value ?? ""}
-                                onChange={(e) => field.onChange(e.target.value === "" ? 0 : parseFloat(e.target.value) || 0)}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
+                        name={`customMaterials.${i}.youngsModulus`}
+                        label="Young's Modulus (GPa)"
                       />
-                      <FormField
+                      <NumberField
                         control={form.control}
-                        name={`motors.${i}.safetyFactor`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Safety Factor</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                {...field}
-                                value={field.value ?? ""}
-                                onChange={(e) => field.onChange(e.target.value === "" ? 0 : parseFloat(e.target.value) || 0)}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
+                        name={`customMaterials.${i}.yieldStrength`}
+                        label="Yield Strength (MPa)"
                       />
+                      <Button type="button" variant="ghost" size="sm" onClick={() => materialFields.remove(i)}>
+                        <Trash2 /> Remove Material
+                      </Button>
                     </div>
                   </AccordionContent>
                 </AccordionItem>
               ))}
             </Accordion>
+            <Button type="button" variant="outline" onClick={handleAddMaterial}>
+              <Plus /> Add Custom Material
+            </Button>
+          </TabsContent>
+
+          {/* Motor Catalog Tab */}
+          <TabsContent value="catalog" className="space-y-4">
+            <MotorCatalog customMotors={customMotors} onChange={handleCustomMotorsChange} />
           </TabsContent>
         </Tabs>
 
-        <div className="flex flex-col sm:flex-row sm:space-x-4 space-y-4 sm:space-y-0">
+        <ArmDiagram control={form.control} />
+
+        <div className="flex flex-col sm:flex-row sm:flex-wrap gap-4">
           <Button type="submit">Calculate</Button>
+          <Button
+            type="button"
+            variant="secondary"
+            disabled={worstCaseProgress !== null}
+            onClick={form.handleSubmit(onFindWorstCase)}
+          >
+            {worstCaseProgress === null
+              ? "Find Worst-Case Pose"
+              : `Searching... ${Math.round(worstCaseProgress * 100)}%`}
+          </Button>
+          <Button type="button" variant="secondary" onClick={form.handleSubmit(onFindMaxPayload)}>
+            Find Max Payload
+          </Button>
+          <Button type="button" variant="secondary" onClick={form.handleSubmit(handleSelectMotors)}>
+            Auto-Select Motors
+          </Button>
           <Button type="button" variant="secondary" onClick={handleFillDummyValues}>
             Fill Dummy Values
           </Button>
           <Button type="button" variant="destructive" onClick={handleResetValues}>
             Reset Values
           </Button>
+          <Button type="button" variant="outline" onClick={handleSaveProject}>
+            <Save /> Save Project
+          </Button>
+          <Button type="button" variant="outline" onClick={handleSaveToLibrary}>
+            <BookmarkPlus /> Save to Library
+          </Button>
+          <Button type="button" variant="outline" onClick={() => projectInput.current?.click()}>
+            <FolderOpen /> Open Project
+          </Button>
+          <Button type="button" variant="outline" onClick={handleCopyLink}>
+            <Link /> {linkCopied ? "Link Copied" : "Copy Link"}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => importInput.current?.click()}>
+            <Upload /> Import Excel/CSV
+          </Button>
           <Button type="button" variant="outline" onClick={handleExportToExcel}>
             Export to Excel
           </Button>
+          <Button type="button" variant="outline" onClick={handleDownloadReport}>
+            <FileText /> Download PDF Report
+          </Button>
         </div>
+        <input
+          ref={importInput}
+          type="file"
+          accept=".xlsx,.xls,.csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = "";
+          }}
+        />
+        <input
+          ref={projectInput}
+          type="file"
+          accept={`${PROJECT_FILE_EXTENSION},.json,application/json`}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleOpenProject(file);
+            e.target.value = "";
+          }}
+        />
+        {projectError && <div className="text-red-500 text-sm">{projectError}</div>}
+        {importErrors.length > 0 && (
+          <div className="text-red-500 text-sm">
+            <div className="font-medium">The file could not be imported:</div>
+            <ul className="list-disc pl-5">
+              {importErrors.map((issue, i) => (
+                <li key={i}>{formatImportIssue(issue)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
       </form>
     </FormProvider>
   );
@@ -0,0 +1,143 @@
+import { X } from "lucide-react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUnits } from "@/components/UnitsProvider";
+import { COMPARED_VALUES, compareValue, type PinnedDesign } from "@/lib/comparison";
+import { formatQuantity, unitLabel, type Quantity } from "@/lib/units";
+
+interface ComparisonViewProps {
+  pinned: PinnedDesign[];
+  onChange: (pinned: PinnedDesign[]) => void;
+}
+
+const CHANGE_CLASSES = {
+  better: "text-green-600",
+  worse: "text-red-500",
+  same: "text-muted-foreground",
+};
+
+export default function ComparisonView({ pinned, onChange }: ComparisonViewProps) {
+  const { units } = useUnits();
+  const [baseline, ...others] = pinned;
+  const motorCount = Math.max(...pinned.map((entry) => entry.results.length));
+
+  const format = (value: number, quantity?: Quantity) =>
+    quantity ? formatQuantity(units, quantity, value) : value.toFixed(4);
+
+  const rename = (id: string, label: string) =>
+    onChange(pinned.map((entry) => (entry.id === id ? { ...entry, label } : entry)));
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-xl font-bold mb-4">Design Comparison</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Differences are against the first design.{" "}
+        <span className={CHANGE_CLASSES.better}>Green</span> needs less of the motor,{" "}
+        <span className={CHANGE_CLASSES.worse}>red</span> more.
+      </p>
+      <div className="grid gap-2 sm:grid-cols-2 mb-4">
+        {pinned.map((entry, i) => (
+          <div key={entry.id} className="flex items-center gap-2">
+            <Input value={entry.label} onChange={(e) => rename(entry.id, e.target.value)} />
+            {i > 0 && (
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => onChange([entry, ...pinned.filter((other) => other !== entry)])}
+              >
+                Baseline
+              </Button>
+            )}
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              aria-label="Unpin"
+              onClick={() => onChange(pinned.filter((other) => other !== entry))}
+            >
+              <X />
+            </Button>
+          </div>
+        ))}
+      </div>
+      {others.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Pin another design to compare it with this one.</p>
+      ) : (
+        <Accordion type="multiple" className="w-full">
+          {Array.from({ length: motorCount }, (_, j) => (
+            <AccordionItem key={j} value={String(j)}>
+              {/* The joint's torque requirement with the safety factor decides whether it got better or worse */}
+              <AccordionTrigger>
+                <span className="flex flex-wrap gap-x-4">
+                  <span>Motor {j + 1}</span>
+                  {others.map((entry) => {
+                    const base = baseline.results[j]?.T_sf;
+                    const value = entry.results[j]?.T_sf;
+                    if (base === undefined || value === undefined) return null;
+                    const delta = compareValue(base, value);
+                    return (
+                      <span key={entry.id} className={`font-normal ${CHANGE_CLASSES[delta.change]}`}>
+                        {entry.label}: {delta.change === "same" ? "no change" : delta.change}
+                        {delta.percent !== null && delta.change !== "same" && ` (${delta.percent.toFixed(1)}% torque SF)`}
+                      </span>
+                    );
+                  })}
+                </span>
+              </AccordionTrigger>
+              <AccordionContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead />
+                      {pinned.map((entry) => (
+                        <TableHead key={entry.id}>{entry.label}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {COMPARED_VALUES.map(({ key, label, quantity }) => {
+                      const base = baseline.results[j]?.[key];
+                      return (
+                        <TableRow key={key}>
+                          <TableCell>{quantity ? `${label} (${unitLabel(units, quantity)})` : label}</TableCell>
+                          <TableCell>{base === undefined ? "-" : format(base, quantity)}</TableCell>
+                          {others.map((entry) => {
+                            const value = entry.results[j]?.[key];
+                            if (value === undefined) return <TableCell key={entry.id}>-</TableCell>;
+                            if (base === undefined) return <TableCell key={entry.id}>{format(value, quantity)}</TableCell>;
+                            const delta = compareValue(base, value);
+                            return (
+                              <TableCell key={entry.id}>
+                                <div>{format(value, quantity)}</div>
+                                <div className={`text-xs ${CHANGE_CLASSES[delta.change]}`}>
+                                  {delta.absolute >= 0 ? "+" : ""}
+                                  {format(delta.absolute, quantity)}
+                                  {delta.percent !== null &&
+                                    ` (${delta.percent >= 0 ? "+" : ""}${delta.percent.toFixed(1)}%)`}
+                                </div>
+                              </TableCell>
+                            );
+                          })}
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import type { DesignIssue } from "@/lib/validation";
+
+interface DesignIssueListProps {
+  issues: DesignIssue[];
+}
+
+/** Every problem with the calculated design, errors first, including those not tied to one input. */
+export default function DesignIssueList({ issues }: DesignIssueListProps) {
+  if (issues.length === 0) return null;
+  const errors = issues.filter((issue) => issue.severity === "error");
+  const warnings = issues.filter((issue) => issue.severity === "warning");
+
+  return (
+    <div className="mt-4 space-y-2 text-sm">
+      {errors.length > 0 && (
+        <div className="text-red-500">
+          <p className="font-medium">The design cannot be calculated until these are fixed:</p>
+          <ul className="list-disc pl-5">
+            {errors.map((issue, i) => (
+              <li key={i}>{issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div className="text-amber-600">
+          <p className="font-medium">Warnings:</p>
+          <ul className="list-disc pl-5">
+            {warnings.map((issue, i) => (
+              <li key={i}>{issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useUnits } from "@/components/UnitsProvider";
+import type { MotorResult } from "@/lib/calculations";
+import type { HistoryEntry, LibraryDesign } from "@/lib/designLibrary";
+import type { DesignSnapshot } from "@/lib/projectFile";
+import type { InputValues } from "@/lib/schema";
+import { formatQuantity, unitLabel } from "@/lib/units";
+
+interface DesignLibraryProps {
+  designs: LibraryDesign[];
+  history: HistoryEntry[];
+  onLoad: (snapshot: DesignSnapshot) => void;
+  onPin: (label: string, design: InputValues, results?: MotorResult[]) => void;
+  onDesignsChange: (designs: LibraryDesign[]) => void;
+  onClearHistory: () => void;
+}
+
+const parseTags = (text: string) =>
+  Array.from(new Set(text.split(",").map((tag) => tag.trim()).filter(Boolean)));
+
+export default function DesignLibrary({
+  designs,
+  history,
+  onLoad,
+  onPin,
+  onDesignsChange,
+  onClearHistory,
+}: DesignLibraryProps) {
+  const [filter, setFilter] = useState("");
+  const { units } = useUnits();
+
+  const query = filter.trim().toLowerCase();
+  const shown = designs.filter(
+    (design) =>
+      design.name.toLowerCase().includes(query) || design.tags.some((tag) => tag.toLowerCase().includes(query))
+  );
+
+  const updateTags = (id: string, tags: string[]) => {
+    onDesignsChange(designs.map((design) => (design.id === id ? { ...design, tags } : design)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <section className="space-y-3">
+        <h2 className="text-lg font-bold">Saved Designs</h2>
+        <Input placeholder="Filter by name or tag" value={filter} onChange={(e) => setFilter(e.target.value)} />
+        {shown.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {designs.length === 0 ? "Name a project on the General tab and save it to the library." : "No matches."}
+          </p>
+        )}
+        {shown.map((design) => (
+          <div key={design.id} className="space-y-2 rounded-md border p-3">
+            <div className="font-medium">{design.name}</div>
+            <div className="text-xs text-muted-foreground">
+              Updated {new Date(design.updatedAt).toLocaleString()}
+            </div>
+            {design.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {design.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {/* Tags are applied when the field loses focus so commas can be typed */}
+            <Input
+              key={design.tags.join(",")}
+              placeholder="Tags, comma separated"
+              defaultValue={design.tags.join(", ")}
+              onBlur={(e) => updateTags(design.id, parseTags(e.target.value))}
+            />
+            <div className="flex gap-2">
+              <Button type="button" size="sm" variant="outline" onClick={() => onLoad(design.project)}>
+                Load
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => onPin(design.name, design.project.design)}>
+                Pin
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => onDesignsChange(designs.filter((entry) => entry.id !== design.id))}
+              >
+                <Trash2 /> Delete
+              </Button>
+            </div>
+          </div>
+        ))}
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-bold">History</h2>
+        {history.length === 0 && <p className="text-sm text-muted-foreground">Calculations will appear here.</p>}
+        {history.map((entry) => {
+          const peak = Math.max(...entry.results.map((result) => Math.abs(result.T_sf)));
+          return (
+            <div key={entry.id} className="flex items-center justify-between gap-2 rounded-md border p-3">
+              <div className="text-sm">
+                <div>{new Date(entry.timestamp).toLocaleString()}</div>
+                <div className="text-xs text-muted-foreground">
+                  {entry.design.motors.length} joints, {formatQuantity(units, "mass", entry.design.m_payload)}{" "}
+                  {unitLabel(units, "mass")} payload, max {formatQuantity(units, "torque", peak)}{" "}
+                  {unitLabel(units, "torque")} with SF
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" size="sm" variant="outline" onClick={() => onLoad({ design: entry.design })}>
+                  Restore
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onPin(new Date(entry.timestamp).toLocaleString(), entry.design, entry.results)}
+                >
+                  Pin
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+        {history.length > 0 && (
+          <Button type="button" size="sm" variant="ghost" onClick={onClearHistory}>
+            <Trash2 /> Clear History
+          </Button>
+        )}
+      </section>
+    </div>
+  );
+}
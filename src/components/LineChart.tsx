@@ -0,0 +1,141 @@
+export interface ChartSeries {
+  label: string;
+  /** Points with a null y, such as invalid designs, break the line. */
+  points: { x: number; y: number | null }[];
+}
+
+interface LineChartProps {
+  series: ChartSeries[];
+  xLabel: string;
+  yLabel: string;
+}
+
+/** One colour per joint, in motor order. */
+export const SERIES_COLORS = [
+  "#2563eb",
+  "#dc2626",
+  "#16a34a",
+  "#d97706",
+  "#9333ea",
+  "#0891b2",
+  "#db2777",
+  "#65a30d",
+  "#4f46e5",
+  "#ea580c",
+  "#0d9488",
+  "#78716c",
+];
+
+const WIDTH = 640;
+const HEIGHT = 320;
+const MARGIN = { top: 16, right: 16, bottom: 48, left: 64 };
+
+/** Round tick values covering [min, max], roughly `count` of them. */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  if (min === max) return [min];
+  const rough = (max - min) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= rough) ?? rough;
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    ticks.push(Math.abs(tick) < step * 1e-9 ? 0 : tick);
+  }
+  return ticks;
+}
+
+const formatTick = (value: number) => Number(value.toPrecision(6)).toString();
+
+export default function LineChart({ series, xLabel, yLabel }: LineChartProps) {
+  const points = series.flatMap((entry) => entry.points);
+  const xs = points.map((point) => point.x);
+  const ys = points.flatMap((point) => (point.y === null ? [] : [point.y]));
+  if (xs.length === 0 || ys.length === 0) {
+    return <p className="text-sm text-muted-foreground">No valid designs in this range.</p>;
+  }
+
+  const xMin = Math.min(...xs);
+  const xMax = Math.max(...xs);
+  // The y axis includes zero so slopes read in proportion
+  const yTicks = niceTicks(Math.min(0, ...ys), Math.max(0, ...ys));
+  const yMin = Math.min(yTicks[0], ...ys);
+  const yMax = Math.max(yTicks[yTicks.length - 1], ...ys);
+
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const scaleX = (x: number) => MARGIN.left + (xMax === xMin ? plotWidth / 2 : ((x - xMin) / (xMax - xMin)) * plotWidth);
+  const scaleY = (y: number) => MARGIN.top + (yMax === yMin ? plotHeight / 2 : ((yMax - y) / (yMax - yMin)) * plotHeight);
+
+  // Each run of valid points becomes its own path segment
+  const path = (entry: ChartSeries) => {
+    let d = "";
+    let drawing = false;
+    for (const point of entry.points) {
+      if (point.y === null) {
+        drawing = false;
+        continue;
+      }
+      d += `${drawing ? "L" : "M"}${scaleX(point.x).toFixed(1)},${scaleY(point.y).toFixed(1)}`;
+      drawing = true;
+    }
+    return d;
+  };
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${yLabel} against ${xLabel}`}>
+        {yTicks.map((tick) => (
+          <g key={`y${tick}`}>
+            <line
+              x1={MARGIN.left}
+              x2={WIDTH - MARGIN.right}
+              y1={scaleY(tick)}
+              y2={scaleY(tick)}
+              stroke="currentColor"
+              strokeOpacity={tick === 0 ? 0.4 : 0.1}
+            />
+            <text x={MARGIN.left - 6} y={scaleY(tick)} textAnchor="end" dominantBaseline="middle" fontSize={11} fill="currentColor">
+              {formatTick(tick)}
+            </text>
+          </g>
+        ))}
+        {niceTicks(xMin, xMax).map((tick) => (
+          <g key={`x${tick}`}>
+            <line
+              x1={scaleX(tick)}
+              x2={scaleX(tick)}
+              y1={MARGIN.top}
+              y2={HEIGHT - MARGIN.bottom}
+              stroke="currentColor"
+              strokeOpacity={0.1}
+            />
+            <text x={scaleX(tick)} y={HEIGHT - MARGIN.bottom + 16} textAnchor="middle" fontSize={11} fill="currentColor">
+              {formatTick(tick)}
+            </text>
+          </g>
+        ))}
+        <text x={MARGIN.left + plotWidth / 2} y={HEIGHT - 8} textAnchor="middle" fontSize={12} fill="currentColor">
+          {xLabel}
+        </text>
+        <text
+          transform={`translate(14 ${MARGIN.top + plotHeight / 2}) rotate(-90)`}
+          textAnchor="middle"
+          fontSize={12}
+          fill="currentColor"
+        >
+          {yLabel}
+        </text>
+        {series.map((entry, i) => (
+          <path key={entry.label} d={path(entry)} fill="none" stroke={SERIES_COLORS[i % SERIES_COLORS.length]} strokeWidth={2} />
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+        {series.map((entry, i) => (
+          <span key={entry.label} className="flex items-center gap-1">
+            <span className="inline-block h-2 w-4 rounded-sm" style={{ backgroundColor: SERIES_COLORS[i % SERIES_COLORS.length] }} />
+            {entry.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
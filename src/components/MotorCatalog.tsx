@@ -0,0 +1,106 @@
+import { useRef, useState } from "react";
+import { Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUnits } from "@/components/UnitsProvider";
+import { BUILT_IN_MOTORS, parseMotorCatalog, type CatalogMotor } from "@/lib/motorCatalog";
+import { formatQuantity, unitLabel } from "@/lib/units";
+
+interface MotorCatalogProps {
+  customMotors: CatalogMotor[];
+  onChange: (customMotors: CatalogMotor[]) => void;
+}
+
+export default function MotorCatalog({ customMotors, onChange }: MotorCatalogProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { units } = useUnits();
+
+  // Imported entries replace custom motors with the same id
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseMotorCatalog(await file.text());
+      const ids = new Set(imported.map((motor) => motor.id));
+      onChange([...customMotors.filter((motor) => !ids.has(motor.id)), ...imported]);
+      setError(null);
+    } catch (error: any) {
+      setError(error.message || "Could not read the catalog file");
+    }
+  };
+
+  const rows = [
+    ...BUILT_IN_MOTORS.map((motor) => ({ motor, custom: false })),
+    ...customMotors.map((motor) => ({ motor, custom: true })),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Torques are at the motor shaft. Import a JSON array of motors with id, name, type (servo, stepper or bldc),
+        ratedTorque (Nm), peakTorque (Nm), speed (rpm), mass (kg) and length (m) to extend the catalog; catalog files
+        are always in these SI units.
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Motor</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Rated Torque ({unitLabel(units, "torque")})</TableHead>
+            <TableHead>Peak Torque ({unitLabel(units, "torque")})</TableHead>
+            <TableHead>Speed (rpm)</TableHead>
+            <TableHead>Mass ({unitLabel(units, "mass")})</TableHead>
+            <TableHead>Length ({unitLabel(units, "length")})</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ motor, custom }) => (
+            <TableRow key={`${custom ? "custom" : "built-in"}-${motor.id}`}>
+              <TableCell>{motor.name}</TableCell>
+              <TableCell>{motor.type}</TableCell>
+              <TableCell>{formatQuantity(units, "torque", motor.ratedTorque, 3)}</TableCell>
+              <TableCell>{formatQuantity(units, "torque", motor.peakTorque, 3)}</TableCell>
+              <TableCell>{motor.speed}</TableCell>
+              <TableCell>{formatQuantity(units, "mass", motor.mass, 3)}</TableCell>
+              <TableCell>{formatQuantity(units, "length", motor.length, 3)}</TableCell>
+              <TableCell>
+                {custom && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange(customMotors.filter((entry) => entry.id !== motor.id))}
+                  >
+                    <Trash2 /> Remove
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <input
+        ref={fileInput}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = "";
+        }}
+      />
+      <Button type="button" variant="outline" onClick={() => fileInput.current?.click()}>
+        <Upload /> Import Catalog JSON
+      </Button>
+      {error && <div className="text-red-500">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUnits } from "@/components/UnitsProvider";
+import type { SelectionResult } from "@/lib/motorSelection";
+import { formatQuantity, unitLabel } from "@/lib/units";
+
+interface MotorSelectionTableProps {
+  selection: SelectionResult;
+}
+
+export default function MotorSelectionTable({ selection }: MotorSelectionTableProps) {
+  const { units } = useUnits();
+  const T = unitLabel(units, "torque");
+  const torque = (value: number) => formatQuantity(units, "torque", value, 3);
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-xl font-bold mb-4">Motor Selection</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        {selection.converged
+          ? `Selection settled after ${selection.iterations} iteration(s); the chosen masses, lengths and ratings were applied.`
+          : `Selection did not settle after ${selection.iterations} iterations; check the last choices by hand.`}
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Motor</TableHead>
+            <TableHead>Selected</TableHead>
+            <TableHead>Required Rated ({T})</TableHead>
+            <TableHead>Rated ({T})</TableHead>
+            <TableHead>Required Peak ({T})</TableHead>
+            <TableHead>Peak ({T})</TableHead>
+            <TableHead>Required Speed (rpm)</TableHead>
+            <TableHead>Speed (rpm)</TableHead>
+            <TableHead>Mass ({unitLabel(units, "mass")})</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {selection.selections.map(({ motor, requiredRated, requiredPeak, requiredSpeed }, index) => (
+            <TableRow key={index}>
+              <TableCell>{index + 1}</TableCell>
+              <TableCell className={motor ? undefined : "text-red-500"}>{motor?.name ?? "No catalog motor fits"}</TableCell>
+              <TableCell>{torque(requiredRated)}</TableCell>
+              <TableCell>{motor ? torque(motor.ratedTorque) : "-"}</TableCell>
+              <TableCell>{torque(requiredPeak)}</TableCell>
+              <TableCell>{motor ? torque(motor.peakTorque) : "-"}</TableCell>
+              <TableCell>{requiredSpeed}</TableCell>
+              <TableCell>{motor?.speed ?? "-"}</TableCell>
+              <TableCell>{motor ? formatQuantity(units, "mass", motor.mass, 3) : "-"}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
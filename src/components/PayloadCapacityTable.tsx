@@ -0,0 +1,65 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUnits } from "@/components/UnitsProvider";
+import type { PayloadCapacity } from "@/lib/payloadCapacity";
+import { formatQuantity, toSI, unitLabel } from "@/lib/units";
+
+interface PayloadCapacityTableProps {
+  capacity: PayloadCapacity;
+}
+
+export default function PayloadCapacityTable({ capacity }: PayloadCapacityTableProps) {
+  const { units } = useUnits();
+  const T = unitLabel(units, "torque");
+  const m = unitLabel(units, "mass");
+  const mass = (value: number) => (value === Infinity ? "Unlimited" : formatQuantity(units, "mass", value));
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-xl font-bold mb-4">Maximum Payload</h2>
+      <p className="mb-4">
+        {capacity.limitingJoint === null ? (
+          "None of the rated motors is loaded by the payload at this pose."
+        ) : (
+          <>
+            The installed motors can hold up to{" "}
+            <span className="font-semibold">
+              {mass(capacity.maxPayload)} {m}
+            </span>{" "}
+            at the entered pose, limited by Motor {capacity.limitingJoint + 1}.
+          </>
+        )}
+        {capacity.minPayload > 0 &&
+          ` At least ${mass(capacity.minPayload)} ${m} is needed to counterbalance the arm.`}
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Motor</TableHead>
+            <TableHead>Holding Capacity after Gearbox and SF ({T})</TableHead>
+            <TableHead>Holding Torque without Payload ({T})</TableHead>
+            <TableHead>Holding Torque per {m} of Payload ({T})</TableHead>
+            <TableHead>Max Payload ({m})</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {capacity.joints.map((joint, index) => (
+            <TableRow key={index} className={index === capacity.limitingJoint ? "font-semibold" : undefined}>
+              <TableCell>{index + 1}</TableCell>
+              <TableCell>{joint.range ? formatQuantity(units, "torque", joint.capacity) : "No rating"}</TableCell>
+              <TableCell>{formatQuantity(units, "torque", joint.torqueWithoutPayload)}</TableCell>
+              <TableCell>{formatQuantity(units, "torque", joint.torquePerKg * toSI(units, "mass", 1))}</TableCell>
+              <TableCell>{joint.range ? mass(joint.range.max) : "-"}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
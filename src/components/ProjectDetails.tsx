@@ -0,0 +1,45 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { ProjectMetadata } from "@/lib/projectFile";
+
+interface ProjectDetailsProps {
+  metadata: ProjectMetadata;
+  onChange: (metadata: ProjectMetadata) => void;
+}
+
+export default function ProjectDetails({ metadata, onChange }: ProjectDetailsProps) {
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="project-name">Project Name</Label>
+          <Input
+            id="project-name"
+            value={metadata.name}
+            onChange={(e) => onChange({ ...metadata, name: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="project-author">Author</Label>
+          <Input
+            id="project-author"
+            value={metadata.author}
+            onChange={(e) => onChange({ ...metadata, author: e.target.value })}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="project-notes">Notes</Label>
+        <Textarea
+          id="project-notes"
+          value={metadata.notes}
+          onChange={(e) => onChange({ ...metadata, notes: e.target.value })}
+        />
+      </div>
+      {metadata.savedAt && (
+        <p className="text-sm text-muted-foreground">Last saved {new Date(metadata.savedAt).toLocaleString()}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { CircleAlert, CircleCheck, CircleX } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUnits } from "@/components/UnitsProvider";
+import type { Motor, MotorResult } from "@/lib/calculations";
+import { checkRatings, summarizeRatings, type RatingCheck, type RatingStatus } from "@/lib/ratingCheck";
+import { formatQuantity, unitLabel } from "@/lib/units";
+
+interface RatingCheckTableProps {
+  motors: Motor[];
+  results: MotorResult[];
+}
+
+const STATUS_CLASSES: Record<RatingStatus, string> = {
+  pass: "text-green-600",
+  warn: "text-amber-600",
+  fail: "text-red-500",
+};
+
+const BANNER_CLASSES: Record<RatingStatus, string> = {
+  pass: "border-green-600/50 text-green-700",
+  warn: "border-amber-600/50 text-amber-700",
+  fail: "border-red-500/50 text-red-600",
+};
+
+const STATUS_LABELS: Record<RatingStatus, string> = { pass: "Pass", warn: "Warn", fail: "Fail" };
+
+export default function RatingCheckTable({ motors, results }: RatingCheckTableProps) {
+  const { units } = useUnits();
+  const T = unitLabel(units, "torque");
+  const joints = checkRatings(motors, results);
+  const summary = summarizeRatings(joints);
+
+  const torqueCheck = (check: RatingCheck | null) => cell(check, (value) => formatQuantity(units, "torque", value));
+  const speedCheck = (check: RatingCheck | null) => cell(check, (value) => value.toFixed(0));
+
+  if (summary === null) {
+    return (
+      <div className="mt-8">
+        <h2 className="text-xl font-bold mb-4">Motor Ratings</h2>
+        <p className="text-sm text-muted-foreground">
+          Enter the installed motors&apos; rated torques and speeds on the Motors tab to check them against these
+          results.
+        </p>
+      </div>
+    );
+  }
+
+  const overall = summary.status;
+  const BannerIcon = overall === "pass" ? CircleCheck : overall === "warn" ? CircleAlert : CircleX;
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-xl font-bold mb-4">Motor Ratings</h2>
+      <Alert className={`mb-4 ${BANNER_CLASSES[overall]}`}>
+        <BannerIcon />
+        <AlertTitle>{summary.title}</AlertTitle>
+        <AlertDescription className="text-current/80">{summary.detail}</AlertDescription>
+      </Alert>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Motor</TableHead>
+            <TableHead>Continuous Torque ({T})</TableHead>
+            <TableHead>Peak Torque ({T})</TableHead>
+            <TableHead>Speed (rpm)</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {joints.map((joint, index) => (
+            <TableRow key={index}>
+              <TableCell>{index + 1}</TableCell>
+              <TableCell>{torqueCheck(joint.continuous)}</TableCell>
+              <TableCell>{torqueCheck(joint.peak)}</TableCell>
+              <TableCell>{speedCheck(joint.speed)}</TableCell>
+              <TableCell className={joint.status ? `font-semibold ${STATUS_CLASSES[joint.status]}` : "text-muted-foreground"}>
+                {joint.status ? STATUS_LABELS[joint.status] : "Not rated"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// Required of rating, then the utilisation and what is left, coloured by status
+function cell(check: RatingCheck | null, format: (value: number) => string) {
+  if (!check) return <span className="text-muted-foreground">-</span>;
+  return (
+    <div>
+      <div>
+        {format(check.required)} / {format(check.rating)}
+      </div>
+      <div className={`text-xs ${STATUS_CLASSES[check.status]}`}>
+        {(check.utilisation * 100).toFixed(0)}% used, {check.margin >= 0 ? `${format(check.margin)} left` : `${format(-check.margin)} over`}
+      </div>
+    </div>
+  );
+}
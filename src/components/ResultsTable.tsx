@@ -6,19 +6,21 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { useUnits } from "@/components/UnitsProvider";
+import type { MotorResult } from "@/lib/calculations";
+import { formatQuantity, unitLabel } from "@/lib/units";
 
 interface ResultsTableProps {
-  results: Array<{
-    T_total: number;
-    T_sf: number;
-    T_before: number;
-    T_before_sf: number;
-    P: number;
-    P_sf: number;
-  }>;
+  results: MotorResult[];
 }
 
 export default function ResultsTable({ results }: ResultsTableProps) {
+  const { units } = useUnits();
+  const T = unitLabel(units, "torque");
+  const P = unitLabel(units, "power");
+  const torque = (value: number) => formatQuantity(units, "torque", value);
+  const power = (value: number) => formatQuantity(units, "power", value);
+
   return (
     <div className="mt-8">
       <h2 className="text-xl font-bold mb-4">Results</h2>
@@ -26,24 +28,32 @@ export default function ResultsTable({ results }: ResultsTableProps) {
         <TableHeader>
           <TableRow>
             <TableHead>Motor</TableHead>
-            <TableHead>Torque Total (Nm)</TableHead>
-            <TableHead>Torque SF (Nm)</TableHead>
-            <TableHead>Torque Before (Nm)</TableHead>
-            <TableHead>Torque Before SF (Nm)</TableHead>
-            <TableHead>Power (W)</TableHead>
-            <TableHead>Power SF (W)</TableHead>
+            <TableHead>Torque Static ({T})</TableHead>
+            <TableHead>Torque Dynamic ({T})</TableHead>
+            <TableHead>Torque Total ({T})</TableHead>
+            <TableHead>Torque SF ({T})</TableHead>
+            <TableHead>Torque Before ({T})</TableHead>
+            <TableHead>Torque Before SF ({T})</TableHead>
+            <TableHead>Gear Stage Ratings ({T})</TableHead>
+            <TableHead>Power ({P})</TableHead>
+            <TableHead>Power SF ({P})</TableHead>
+            <TableHead>Peak Power ({P})</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
           {results.map((result, index) => (
             <TableRow key={index}>
               <TableCell>{index + 1}</TableCell>
-              <TableCell>{result.T_total.toFixed(2)}</TableCell>
-              <TableCell>{result.T_sf.toFixed(2)}</TableCell>
-              <TableCell>{result.T_before.toFixed(2)}</TableCell>
-              <TableCell>{result.T_before_sf.toFixed(2)}</TableCell>
-              <TableCell>{result.P.toFixed(2)}</TableCell>
-              <TableCell>{result.P_sf.toFixed(2)}</TableCell>
+              <TableCell>{torque(result.T_static)}</TableCell>
+              <TableCell>{torque(result.T_dynamic)}</TableCell>
+              <TableCell>{torque(result.T_total)}</TableCell>
+              <TableCell>{torque(result.T_sf)}</TableCell>
+              <TableCell>{torque(result.T_before)}</TableCell>
+              <TableCell>{torque(result.T_before_sf)}</TableCell>
+              <TableCell>{result.T_stages.map(torque).join(" / ") || "-"}</TableCell>
+              <TableCell>{power(result.P)}</TableCell>
+              <TableCell>{power(result.P_sf)}</TableCell>
+              <TableCell>{power(result.P_peak)}</TableCell>
             </TableRow>
           ))}
         </TableBody>
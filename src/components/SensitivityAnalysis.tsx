@@ -0,0 +1,195 @@
+import { useMemo, useState } from "react";
+import LineChart from "@/components/LineChart";
+import TornadoChart from "@/components/TornadoChart";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useUnits } from "@/components/UnitsProvider";
+import type { InputData } from "@/lib/calculations";
+import { sensitivity, sweep, sweepParameters, type SweepParameter } from "@/lib/sensitivity";
+import { fromSI, toSI, unitLabel, type UnitSettings } from "@/lib/units";
+
+interface SensitivityAnalysisProps {
+  design: InputData;
+}
+
+const MAX_STEPS = 200;
+
+// Parameter values as entered, in the chosen units where the parameter has a quantity
+const toDisplay = (units: UnitSettings, parameter: SweepParameter, value: number) =>
+  parameter.quantity ? fromSI(units, parameter.quantity, value) : value;
+const fromDisplay = (units: UnitSettings, parameter: SweepParameter, value: number) =>
+  parameter.quantity ? toSI(units, parameter.quantity, value) : value;
+
+const roundForInput = (value: number) => String(Number(value.toPrecision(4)));
+
+export default function SensitivityAnalysis({ design }: SensitivityAnalysisProps) {
+  const { units } = useUnits();
+  const parameters = useMemo(() => sweepParameters(design), [design]);
+  const [parameterId, setParameterId] = useState("payload");
+  // The range is kept in SI so changing units doesn't move it
+  const [range, setRange] = useState<{ from: number; to: number } | null>(null);
+  const [steps, setSteps] = useState("21");
+  const [variation, setVariation] = useState("10");
+  const [joint, setJoint] = useState(0);
+
+  const parameter = parameters.find((entry) => entry.id === parameterId) ?? parameters[0];
+  const current = parameter.get(design);
+  // Until a range is entered, sweep from half to one and a half times the current value
+  const { from, to } = range ?? (current === 0 ? { from: 0, to: 1 } : { from: current * 0.5, to: current * 1.5 });
+  const stepCount = Math.min(MAX_STEPS, Math.max(2, Math.round(Number(steps)) || 2));
+
+  const points = useMemo(() => sweep(design, parameter, from, to, stepCount), [design, parameter, from, to, stepCount]);
+  const fraction = Number(variation) / 100;
+  const ranking = useMemo(
+    () => (fraction > 0 && fraction < 1 ? sensitivity(design, fraction) : { error: "Enter a variation between 0 and 100%." }),
+    [design, fraction]
+  );
+
+  const unit = parameter.quantity ? unitLabel(units, parameter.quantity) : "";
+  const xLabel = unit ? `${parameter.label} (${unit})` : parameter.label;
+  const series = (key: "T_sf" | "P_sf", quantity: "torque" | "power") =>
+    design.motors.map((_, j) => ({
+      label: `Motor ${j + 1}`,
+      points: points.map((point) => ({
+        x: toDisplay(units, parameter, point.value),
+        y: point.results ? fromSI(units, quantity, point.results[j][key]) : null,
+      })),
+    }));
+
+  const setBound = (bound: "from" | "to", text: string) => {
+    const value = Number(text);
+    if (text.trim() === "" || !Number.isFinite(value)) return;
+    setRange({ from, to, [bound]: fromDisplay(units, parameter, value) });
+  };
+
+  // A design with fewer joints may have been calculated since the joint was picked
+  const jointIndex = Math.min(joint, design.motors.length - 1);
+  const torque = (value: number | null) => (value === null ? null : fromSI(units, "torque", value));
+  const jointBars =
+    "error" in ranking
+      ? []
+      : ranking.bars
+          .map((bar) => ({ label: bar.parameter.label, low: torque(bar.low[jointIndex]), high: torque(bar.high[jointIndex]) }))
+          .sort((a, b) => Math.abs((b.high ?? 0) - (b.low ?? 0)) - Math.abs((a.high ?? 0) - (a.low ?? 0)));
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-xl font-bold mb-4">Sensitivity Analysis</h2>
+      <Tabs defaultValue="sweep" className="w-full">
+        <TabsList className="grid grid-cols-2 w-full">
+          <TabsTrigger value="sweep">Parameter Sweep</TabsTrigger>
+          <TabsTrigger value="tornado">Input Ranking</TabsTrigger>
+        </TabsList>
+        <TabsContent value="sweep" className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-4">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="sweep-parameter">Parameter</Label>
+              <NativeSelect
+                id="sweep-parameter"
+                value={parameter.id}
+                onChange={(e) => {
+                  setParameterId(e.target.value);
+                  setRange(null);
+                }}
+              >
+                {parameters.map((entry) => (
+                  <option key={entry.id} value={entry.id}>
+                    {entry.label}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sweep-from">From</Label>
+              <Input
+                id="sweep-from"
+                key={`from-${parameter.id}-${from}-${unit}`}
+                type="number"
+                step="any"
+                defaultValue={roundForInput(toDisplay(units, parameter, from))}
+                onBlur={(e) => setBound("from", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sweep-to">To</Label>
+              <Input
+                id="sweep-to"
+                key={`to-${parameter.id}-${to}-${unit}`}
+                type="number"
+                step="any"
+                defaultValue={roundForInput(toDisplay(units, parameter, to))}
+                onBlur={(e) => setBound("to", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sweep-steps">Steps</Label>
+              <Input
+                id="sweep-steps"
+                type="number"
+                min={2}
+                max={MAX_STEPS}
+                value={steps}
+                onChange={(e) => setSteps(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Currently {roundForInput(toDisplay(units, parameter, current))}
+            {unit && ` ${unit}`}. Gaps in a line are values that make
+            the design invalid.
+          </p>
+          <div>
+            <h3 className="font-semibold mb-2">Torque with Safety Factor</h3>
+            <LineChart series={series("T_sf", "torque")} xLabel={xLabel} yLabel={`Torque (${unitLabel(units, "torque")})`} />
+          </div>
+          <div>
+            <h3 className="font-semibold mb-2">Power with Safety Factor</h3>
+            <LineChart series={series("P_sf", "power")} xLabel={xLabel} yLabel={`Power (${unitLabel(units, "power")})`} />
+          </div>
+        </TabsContent>
+        <TabsContent value="tornado" className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="tornado-joint">Joint</Label>
+              <NativeSelect id="tornado-joint" value={jointIndex} onChange={(e) => setJoint(Number(e.target.value))}>
+                {design.motors.map((_, j) => (
+                  <option key={j} value={j}>
+                    Motor {j + 1}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tornado-variation">Variation (%)</Label>
+              <Input
+                id="tornado-variation"
+                type="number"
+                min={0}
+                max={100}
+                value={variation}
+                onChange={(e) => setVariation(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Each input is moved by ±{variation}% with the others held, and the inputs are ranked by how far the
+            joint&apos;s torque with safety factor moves. Inputs that are currently zero are not shown.
+          </p>
+          {"error" in ranking ? (
+            <div className="text-red-500">{ranking.error}</div>
+          ) : (
+            <TornadoChart
+              base={fromSI(units, "torque", ranking.base[jointIndex].T_sf)}
+              bars={jointBars}
+              unit={unitLabel(units, "torque")}
+              lowLabel={`−${variation}%`}
+              highLabel={`+${variation}%`}
+            />
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
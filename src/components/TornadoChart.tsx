@@ -0,0 +1,95 @@
+import { niceTicks } from "@/components/LineChart";
+
+export interface TornadoBar {
+  label: string;
+  /** Output with the input decreased and increased, or null where that design is invalid. */
+  low: number | null;
+  high: number | null;
+}
+
+interface TornadoChartProps {
+  base: number;
+  /** Already ranked, widest first. */
+  bars: TornadoBar[];
+  unit: string;
+  lowLabel: string;
+  highLabel: string;
+}
+
+const WIDTH = 640;
+const LABEL_WIDTH = 200;
+const ROW_HEIGHT = 24;
+const MARGIN = { top: 8, right: 16, bottom: 32 };
+const LOW_COLOR = "#2563eb";
+const HIGH_COLOR = "#ea580c";
+
+const formatTick = (value: number) => Number(value.toPrecision(6)).toString();
+
+export default function TornadoChart({ base, bars, unit, lowLabel, highLabel }: TornadoChartProps) {
+  const deltas = bars.flatMap((bar) => [bar.low, bar.high].flatMap((value) => (value === null ? [] : [value - base])));
+  const extent = Math.max(...deltas.map(Math.abs), 0);
+  if (extent === 0) {
+    return <p className="text-sm text-muted-foreground">None of the inputs change this joint&apos;s torque.</p>;
+  }
+
+  const ticks = niceTicks(-extent, extent, 6);
+  const range = Math.max(Math.abs(ticks[0]), Math.abs(ticks[ticks.length - 1]), extent);
+  const height = MARGIN.top + bars.length * ROW_HEIGHT + MARGIN.bottom;
+  const plotWidth = WIDTH - LABEL_WIDTH - MARGIN.right;
+  const scale = (delta: number) => LABEL_WIDTH + ((delta + range) / (2 * range)) * plotWidth;
+  const center = scale(0);
+
+  const bar = (value: number | null, y: number, color: string) => {
+    if (value === null) return null;
+    const x = scale(value - base);
+    return <rect x={Math.min(x, center)} y={y} width={Math.abs(x - center)} height={ROW_HEIGHT - 6} fill={color} />;
+  };
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label="Torque sensitivity">
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line
+              x1={scale(tick)}
+              x2={scale(tick)}
+              y1={MARGIN.top}
+              y2={height - MARGIN.bottom}
+              stroke="currentColor"
+              strokeOpacity={tick === 0 ? 0.5 : 0.1}
+            />
+            <text x={scale(tick)} y={height - MARGIN.bottom + 14} textAnchor="middle" fontSize={11} fill="currentColor">
+              {tick > 0 ? "+" : ""}
+              {formatTick(tick)}
+            </text>
+          </g>
+        ))}
+        <text x={center} y={height - 4} textAnchor="middle" fontSize={12} fill="currentColor">
+          Change from {formatTick(base)} {unit}
+        </text>
+        {bars.map((entry, i) => {
+          const y = MARGIN.top + i * ROW_HEIGHT + 3;
+          return (
+            <g key={entry.label}>
+              <text x={LABEL_WIDTH - 8} y={y + (ROW_HEIGHT - 6) / 2} textAnchor="end" dominantBaseline="middle" fontSize={12} fill="currentColor">
+                {entry.label}
+              </text>
+              {bar(entry.low, y, LOW_COLOR)}
+              {bar(entry.high, y, HIGH_COLOR)}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-x-4 text-sm">
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-2 w-4 rounded-sm" style={{ backgroundColor: LOW_COLOR }} />
+          {lowLabel}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-2 w-4 rounded-sm" style={{ backgroundColor: HIGH_COLOR }} />
+          {highLabel}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUnits } from "@/components/UnitsProvider";
+import type { MotorResult } from "@/lib/calculations";
+import { formatQuantity, unitLabel } from "@/lib/units";
+
+interface TorqueBreakdownProps {
+  results: MotorResult[];
+}
+
+export default function TorqueBreakdown({ results }: TorqueBreakdownProps) {
+  const { units } = useUnits();
+  const T = unitLabel(units, "torque");
+  const torque = (value: number) => formatQuantity(units, "torque", value);
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-xl font-bold mb-4">Static Torque Breakdown</h2>
+      <Accordion type="multiple" className="w-full">
+        {results.map((result, index) => {
+          // Largest contributions first; the share is of the summed magnitudes so opposing terms still add to 100%
+          const terms = [...result.breakdown].sort((a, b) => Math.abs(b.torque) - Math.abs(a.torque));
+          const magnitude = terms.reduce((sum, term) => sum + Math.abs(term.torque), 0);
+
+          return (
+            <AccordionItem key={index} value={String(index)}>
+              <AccordionTrigger>
+                Motor {index + 1} — {torque(result.T_static)} {T}
+              </AccordionTrigger>
+              <AccordionContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Source</TableHead>
+                      <TableHead>Weight ({unitLabel(units, "force")})</TableHead>
+                      <TableHead>Moment Arm ({unitLabel(units, "length")})</TableHead>
+                      <TableHead>Torque ({T})</TableHead>
+                      <TableHead>Share (%)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {terms.map((term) => (
+                      <TableRow key={term.source}>
+                        <TableCell>{term.source}</TableCell>
+                        <TableCell>{formatQuantity(units, "force", term.weight)}</TableCell>
+                        <TableCell>{formatQuantity(units, "length", term.momentArm, 3)}</TableCell>
+                        <TableCell>{torque(term.torque)}</TableCell>
+                        <TableCell>
+                          {magnitude > 0 ? ((Math.abs(term.torque) / magnitude) * 100).toFixed(1) : "-"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="font-medium">
+                      <TableCell>Total</TableCell>
+                      <TableCell />
+                      <TableCell />
+                      <TableCell>{torque(result.T_static)}</TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </AccordionContent>
+            </AccordionItem>
+          );
+        })}
+      </Accordion>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { useUnits } from "@/components/UnitsProvider";
+import { QUANTITIES, UNITS, UNIT_SYSTEMS, type UnitSystem } from "@/lib/units";
+
+export default function UnitSettingsPanel() {
+  const { units, setUnits } = useUnits();
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="space-y-2">
+        <Label htmlFor="unit-system">Unit System</Label>
+        <NativeSelect
+          id="unit-system"
+          value={units.system}
+          onChange={(e) => setUnits({ ...units, system: e.target.value as UnitSystem })}
+        >
+          {Object.entries(UNIT_SYSTEMS).map(([id, system]) => (
+            <option key={id} value={id}>
+              {system.label}
+            </option>
+          ))}
+        </NativeSelect>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-3 lg:grid-cols-6">
+        {QUANTITIES.map((quantity) => (
+          <div key={quantity} className="space-y-2">
+            <Label htmlFor={`unit-${quantity}`} className="capitalize">
+              {quantity}
+            </Label>
+            <NativeSelect
+              id={`unit-${quantity}`}
+              value={units.overrides[quantity] ?? ""}
+              onChange={(e) =>
+                setUnits({ ...units, overrides: { ...units.overrides, [quantity]: e.target.value || undefined } })
+              }
+            >
+              <option value="">System ({UNITS[quantity][UNIT_SYSTEMS[units.system].units[quantity]].label})</option>
+              {Object.entries(UNITS[quantity]).map(([id, unit]) => (
+                <option key={id} value={id}>
+                  {unit.label}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
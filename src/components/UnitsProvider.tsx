@@ -0,0 +1,39 @@
+"use client";
+
+import { createContext, useContext, useEffect, useState } from "react";
+import {
+  DEFAULT_UNIT_SETTINGS,
+  loadUnitSettings,
+  saveUnitSettings,
+  type UnitSettings,
+} from "@/lib/units";
+
+interface UnitsContextValue {
+  units: UnitSettings;
+  setUnits: (units: UnitSettings) => void;
+}
+
+const UnitsContext = createContext<UnitsContextValue>({
+  units: DEFAULT_UNIT_SETTINGS,
+  setUnits: () => {},
+});
+
+// Starts from SI so the server render matches, then switches to the saved choice
+export function UnitsProvider({ children }: { children: React.ReactNode }) {
+  const [units, setUnitsState] = useState<UnitSettings>(DEFAULT_UNIT_SETTINGS);
+
+  useEffect(() => {
+    setUnitsState(loadUnitSettings());
+  }, []);
+
+  const setUnits = (next: UnitSettings) => {
+    setUnitsState(next);
+    saveUnitSettings(next);
+  };
+
+  return <UnitsContext.Provider value={{ units, setUnits }}>{children}</UnitsContext.Provider>;
+}
+
+export function useUnits() {
+  return useContext(UnitsContext);
+}
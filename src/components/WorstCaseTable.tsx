@@ -0,0 +1,46 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUnits } from "@/components/UnitsProvider";
+import { formatQuantity, unitLabel } from "@/lib/units";
+import type { WorstCaseResult } from "@/lib/worstCase";
+
+interface WorstCaseTableProps {
+  results: WorstCaseResult[];
+}
+
+export default function WorstCaseTable({ results }: WorstCaseTableProps) {
+  const { units } = useUnits();
+  const T = unitLabel(units, "torque");
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-xl font-bold mb-4">Worst-Case Poses</h2>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Motor</TableHead>
+            <TableHead>Max Holding Torque ({T})</TableHead>
+            <TableHead>Max Holding Torque SF ({T})</TableHead>
+            <TableHead>Joint Angles at Maximum (°)</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {results.map((result, index) => (
+            <TableRow key={index}>
+              <TableCell>{index + 1}</TableCell>
+              <TableCell>{formatQuantity(units, "torque", result.T_max)}</TableCell>
+              <TableCell>{formatQuantity(units, "torque", result.T_max_sf)}</TableCell>
+              <TableCell>{result.angles.map((angle) => angle.toFixed(1)).join(", ")}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { buildArmModel, g, type InputData } from "./calculations";
+import { degToRad, forwardKinematics, type Vec3 } from "./kinematics";
+
+/** A point of the side view: horizontal distance from the base and height (m). */
+export type Point2 = [number, number];
+
+export interface DiagramLoad {
+  source: string;
+  /** Centre of mass. */
+  position: Point2;
+  /** N */
+  weight: number;
+}
+
+export interface ArmDiagramLayout {
+  joints: Point2[];
+  /** Each link from its base end to its tip. */
+  links: [Point2, Point2][];
+  /** Each motor housing along the arm. */
+  motors: [Point2, Point2][];
+  loads: DiagramLoad[];
+}
+
+/** Colours of the loads' centre of mass symbols and weight arrows, by what they are. */
+export const LOAD_COLORS = { Payload: "#dc2626", Link: "#2563eb", Motor: "#d97706" };
+
+export const loadColor = (source: string) =>
+  source === "Payload" ? LOAD_COLORS.Payload : source.startsWith("Link") ? LOAD_COLORS.Link : LOAD_COLORS.Motor;
+
+// Side view looking along -y: x to the right, z up. Yaw joints swing the arm
+// out of this plane, which shows as foreshortening.
+const project = ([x, , z]: Vec3): Point2 => [x, z];
+
+/** Lays the arm out at its entered joint angles for drawing. Throws on invalid data, like the calculation. */
+export function layoutArmDiagram(data: InputData): ArmDiagramLayout {
+  const model = buildArmModel(data);
+  const pose = forwardKinematics(model.pivots, model.axes, data.motors.map((motor) => degToRad(motor.angle)));
+
+  let tip = 0;
+  const links = data.links.map((link, k): [Point2, Point2] => {
+    tip += link.length;
+    return [project(pose.pointAt(k, tip - link.length)), project(pose.pointAt(k, tip))];
+  });
+
+  // Motor k's housing is carried by the body before its joint
+  const motors = data.motors.map((motor, k): [Point2, Point2] => [
+    project(pose.pointAt(k - 1, motor.pivotPosition)),
+    project(pose.pointAt(k - 1, motor.pivotPosition + motor.bodyLength)),
+  ]);
+
+  return {
+    joints: pose.frames.map((frame) => project(frame.origin)),
+    links,
+    motors,
+    loads: model.loads
+      .filter((load) => load.mass > 0)
+      .map((load) => ({ source: load.source, position: project(pose.pointAt(load.body, load.s)), weight: g * load.mass })),
+  };
+}
+
+/** Like layoutArmDiagram, but returns the problem instead of throwing, including dimensions that cannot be drawn yet. */
+export function safeLayoutArmDiagram(data: InputData): ArmDiagramLayout | { error: string } {
+  try {
+    const diagram = layoutArmDiagram(data);
+    const points = [...diagram.joints, ...diagram.links.flat(), ...diagram.motors.flat()];
+    if (!points.every(([x, z]) => Number.isFinite(x) && Number.isFinite(z))) {
+      return { error: "Complete the link and motor dimensions to see the arm." };
+    }
+    return diagram;
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+}
+
+export interface DiagramFit {
+  /** Drawing units per metre. */
+  scale: number;
+  /** Position in the drawing area, with y down. */
+  toScreen: (point: Point2) => Point2;
+}
+
+/**
+ * Fits a diagram, including the base, into a drawing area with `padding`
+ * around it and `bottomSpace` more below for the weight arrows.
+ */
+export function fitArmDiagram(
+  diagram: ArmDiagramLayout,
+  width: number,
+  height: number,
+  padding: number,
+  bottomSpace: number
+): DiagramFit {
+  const points: Point2[] = [[0, 0], ...diagram.joints, ...diagram.links.flat(), ...diagram.motors.flat()];
+  const xs = points.map(([x]) => x);
+  const zs = points.map(([, z]) => z);
+  const xMin = Math.min(...xs);
+  const xMax = Math.max(...xs);
+  const zMin = Math.min(...zs);
+  const zMax = Math.max(...zs);
+  const span = Math.max(xMax - xMin, zMax - zMin, 1e-3);
+  const scale = Math.min(
+    (width - 2 * padding) / Math.max(xMax - xMin, span / 10),
+    (height - 2 * padding - bottomSpace) / Math.max(zMax - zMin, span / 10)
+  );
+  const left = (width - (xMax - xMin) * scale) / 2;
+  const top = padding + (height - 2 * padding - bottomSpace - (zMax - zMin) * scale) / 2;
+  return { scale, toScreen: ([x, z]) => [left + (x - xMin) * scale, top + (zMax - z) * scale] };
+}
+
+/** Largest 1, 2 or 5 × 10^n not above the given length, for a scale bar. */
+export function scaleBarLength(max: number) {
+  const magnitude = 10 ** Math.floor(Math.log10(max));
+  return [5, 2, 1].map((factor) => factor * magnitude).find((length) => length <= max) ?? magnitude;
+}
@@ -0,0 +1,144 @@
+import { performCalculations, type MotorResult } from "./calculations";
+import { parseProjectFile } from "./projectFile";
+import { checkRatings, worstStatus, type JointRatings, type RatingStatus } from "./ratingCheck";
+import { inputSchema, type InputValues } from "./schema";
+import { formatImportIssue, importDesignRows, importSpreadsheet, isSectionedSpreadsheet } from "./spreadsheetImport";
+
+export interface BatchDesign {
+  /** The file name, followed by the design's name or position when the file holds several. */
+  name: string;
+  design?: InputValues;
+  errors: string[];
+}
+
+export interface BatchResult {
+  name: string;
+  errors: string[];
+  /** Suspicious inputs in a design that was read, which do not stop it passing. */
+  warnings?: string[];
+  results?: MotorResult[];
+  ratings?: JointRatings[];
+  /** The worst rating check across the motors, or null when nothing was rated. */
+  status: RatingStatus | null;
+}
+
+// A design in JSON: current input data, or a project file of any version
+function parseJsonDesign(entry: any): Pick<BatchDesign, "design" | "errors"> {
+  if (typeof entry === "object" && entry !== null && ("format" in entry || "density" in entry)) {
+    try {
+      return { design: parseProjectFile(JSON.stringify(entry)).design, errors: [] };
+    } catch (error) {
+      return { errors: [(error as Error).message] };
+    }
+  }
+  const result = inputSchema.safeParse(entry);
+  return result.success
+    ? { design: result.data, errors: [] }
+    : { errors: result.error.issues.map((issue) => `${issue.path.join(".") || "design"}: ${issue.message}`) };
+}
+
+/**
+ * Reads the designs in a file: JSON input data or project files, alone or in
+ * an array, or a workbook or CSV file either in the import layout (one design)
+ * or with one design per row.
+ */
+export function readDesigns(fileName: string, contents: ArrayBuffer): BatchDesign[] {
+  if (fileName.toLowerCase().endsWith(".json")) {
+    let json: unknown;
+    try {
+      json = JSON.parse(new TextDecoder().decode(contents));
+    } catch {
+      return [{ name: fileName, errors: ["The file is not valid JSON"] }];
+    }
+    return Array.isArray(json)
+      ? json.map((entry, i) => ({ name: `${fileName} #${i + 1}`, ...parseJsonDesign(entry) }))
+      : [{ name: fileName, ...parseJsonDesign(json) }];
+  }
+
+  if (isSectionedSpreadsheet(contents)) {
+    const result = importSpreadsheet(contents, []);
+    return [
+      "errors" in result
+        ? { name: fileName, errors: result.errors.map(formatImportIssue) }
+        : { name: fileName, design: result.data, errors: [] },
+    ];
+  }
+  const rows = importDesignRows(contents, []);
+  if ("errors" in rows) return [{ name: fileName, errors: rows.errors.map(formatImportIssue) }];
+  return rows.map(({ name, result }) =>
+    "errors" in result
+      ? { name: `${fileName} ${name}`, errors: result.errors.map(formatImportIssue) }
+      : { name: `${fileName} ${name}`, design: result.data, errors: [] }
+  );
+}
+
+/** Calculates a design and checks it against the motor ratings it carries. */
+export function runDesign({ name, design, errors }: BatchDesign): BatchResult {
+  if (!design) return { name, errors, status: null };
+  const calculation = performCalculations(design);
+  const warnings = calculation.warnings.map((issue) => issue.message);
+  if ("errors" in calculation) {
+    return { name, errors: calculation.errors.map((issue) => issue.message), warnings, status: null };
+  }
+  const { results } = calculation;
+  const ratings = checkRatings(design.motors, results);
+  return { name, errors: [], warnings, results, ratings, status: worstStatus(ratings.map((joint) => joint.status)) };
+}
+
+/** A design passes when it is valid and no motor is over a rating; warnings of either kind still pass. */
+export const batchPassed = (results: BatchResult[]) =>
+  results.every((result) => result.errors.length === 0 && result.status !== "fail");
+
+const percent = (utilisation: number | undefined) =>
+  utilisation === undefined ? "" : Number((utilisation * 100).toFixed(1));
+
+/**
+ * One row per motor of every design, in SI units; designs that failed get a
+ * single row with their errors. A design's warnings are on its first row.
+ */
+export function resultTable(results: BatchResult[]): (string | number)[][] {
+  const header = [
+    "Design",
+    "Motor",
+    "Status",
+    "Torque Static (Nm)",
+    "Torque Dynamic (Nm)",
+    "Torque Total (Nm)",
+    "Torque SF (Nm)",
+    "Torque Before (Nm)",
+    "Torque Before SF (Nm)",
+    "Power (W)",
+    "Power SF (W)",
+    "Peak Power (W)",
+    "Continuous Torque Used (%)",
+    "Peak Torque Used (%)",
+    "Speed Used (%)",
+    "Errors",
+    "Warnings",
+  ];
+  const rows = results.flatMap(({ name, errors, warnings = [], results: motors, ratings }) => {
+    if (!motors || !ratings) {
+      return [[name, "", "invalid", ...Array(header.length - 5).fill(""), errors.join("; "), warnings.join("; ")]];
+    }
+    return motors.map((result, j) => [
+      name,
+      j + 1,
+      ratings[j].status ?? "",
+      result.T_static,
+      result.T_dynamic,
+      result.T_total,
+      result.T_sf,
+      result.T_before,
+      result.T_before_sf,
+      result.P,
+      result.P_sf,
+      result.P_peak,
+      percent(ratings[j].continuous?.utilisation),
+      percent(ratings[j].peak?.utilisation),
+      percent(ratings[j].speed?.utilisation),
+      "",
+      j === 0 ? warnings.join("; ") : "",
+    ]);
+  });
+  return [header, ...rows];
+}
@@ -1,181 +1,339 @@
-interface Link {
+import { checkConsistency } from "./consistency";
+import { gearTrain, stageOutputTorques, validateGearStages, type GearStage } from "./gearing";
+import { findMaterial, type Material } from "./materials";
+import { linkMassProperties, validateLinkSection, type CrossSection, type ExtrusionProfile } from "./sections";
+import { designError, type DesignIssue, type IssueCode } from "./validation";
+import { JOINT_AXES, cross, degToRad, dot, forwardKinematics, scale, sub, type ArmPose, type JointAxis, type JointFrame } from "./kinematics";
+
+export interface Link {
   length: number;
+  /** Id of a built-in or custom material. */
+  material: string;
+  crossSection: CrossSection;
+  /** Outer radius of round sections (m). */
   radius: number;
+  /** Wall thickness of tubes and box sections, shell thickness of printed links (m). */
+  wallThickness: number;
+  /** Outer width and height of box sections and printed links (m). */
+  width: number;
+  height: number;
+  /** Infill percentage of printed links. */
+  infill: number;
+  profile: ExtrusionProfile;
+  /** Measured mass (kg) and its distance from the start of the link (m). */
+  mass: number;
+  centerOfMass: number;
 }
 
-interface Motor {
+export interface Motor {
   mass: number;
   bodyLength: number;
   pivotPosition: number;
   rpm: number;
-  gearRatio: number;
+  /** Gear train between motor and joint, listed from the motor side; empty for direct drive. */
+  gearStages: GearStage[];
+  /** Continuous and peak torque the installed motor is rated for at its shaft (Nm); 0 when not known. */
+  ratedTorque: number;
+  peakTorque: number;
+  /** Fastest the installed motor can turn (rpm); 0 when not known. */
+  maxSpeed: number;
   safetyFactor: number;
+  /** Joint angle in degrees; 0 keeps the arm straight out horizontally. */
+  angle: number;
+  axis: JointAxis;
+  /** Joint limits in degrees, used by the worst-case pose search. */
+  minAngle: number;
+  maxAngle: number;
+  /** Target joint speed (deg/s) and angular acceleration (deg/s²) for dynamic torque. */
+  speed: number;
+  acceleration: number;
 }
 
-interface InputData {
+export interface InputData {
   m_payload: number;
-  density: number;
+  /** User-defined materials that links can refer to in addition to the built-in library. */
+  customMaterials: Material[];
   links: Link[];
   motors: Motor[];
 }
 
-interface MotorResult {
+export interface MotorResult {
+  /** Gravity holding torque at the entered pose (Nm). */
+  T_static: number;
+  /** Moment of inertia of everything the joint moves about its axis (kg·m²). */
+  I: number;
+  /** Torque needed to accelerate everything the joint moves (Nm). */
+  T_dynamic: number;
   T_total: number;
   T_sf: number;
   T_before: number;
   T_before_sf: number;
+  /** Output torque each gear stage must be rated for, with the safety factor (Nm). */
+  T_stages: number[];
   P: number;
   P_sf: number;
+  /** Joint output power at the target speed while still delivering T_total (W). */
+  P_peak: number;
+  /** Every load contributing to T_static. */
+  breakdown: TorqueTerm[];
 }
 
-export function performCalculations(data: InputData): MotorResult[] | { error: string } {
-  try {
-    const g = 9.80665;
-    const pi = 3.141592653589793;
-
-    // Extract inputs
-    const { m_payload, density, links, motors } = data;
-
-    // Input validation
-    if (m_payload < 0) throw new Error("Payload mass cannot be negative");
-    if (density < 0) throw new Error("Density must be positive");
-    if (links.length !== 6) throw new Error("Exactly 6 links are required");
-    if (motors.length !== 6) throw new Error("Exactly 6 motors are required");
-
-    const L = links.map((link) => link.length);
-    const r = links.map((link) => link.radius);
-    const m_motor = motors.map((motor) => motor.mass);
-    const a = motors.map((motor) => motor.bodyLength);
-    const M = motors.map((motor) => motor.pivotPosition);
-    const rpm = motors.map((motor) => motor.rpm);
-    const R = motors.map((motor) => motor.gearRatio);
-    const SF = motors.map((motor) => motor.safetyFactor);
-
-    // Validate arrays
-    for (let i = 0; i < 6; i++) {
-      if (L[i] <= 0) throw new Error(`Link ${i + 1} length must be positive`);
-      if (r[i] <= 0) throw new Error(`Link ${i + 1} radius must be positive`);
-      if (m_motor[i] < 0) throw new Error(`Motor ${i + 1} mass cannot be negative`);
-      if (a[i] < 0) throw new Error(`Motor ${i + 1} body length cannot be negative`);
-      if (M[i] < 0) throw new Error(`Motor ${i + 1} pivot position cannot be negative`);
-      if (rpm[i] < 0) throw new Error(`Motor ${i + 1} RPM cannot be negative`);
-      if (R[i] < 0) throw new Error(`Motor ${i + 1} gear ratio cannot be negative`);
-      if (SF[i] < 1) throw new Error(`Motor ${i + 1} safety factor must be at least 1`);
+export interface TorqueTerm {
+  /** What the load is, e.g. "Payload", "Link 3" or "Motor 4" (including its gearbox). */
+  source: string;
+  /** N */
+  weight: number;
+  /** Horizontal lever arm of the weight about the joint axis (m); negative when it helps the motor. */
+  momentArm: number;
+  /** Nm */
+  torque: number;
+}
+
+/** Standard gravity (m/s²). */
+export const g = 9.80665;
+
+interface Load {
+  source: string;
+  mass: number;
+  /** Index of the joint whose body carries the load; -1 is the base. */
+  body: number;
+  /** Distance of the load's centre of mass along the arm. */
+  s: number;
+  /** Moments of inertia about the centre of mass, along and across the arm (kg·m²). */
+  I_axial: number;
+  I_transverse: number;
+}
+
+/** Validated geometry and weights of an arm, independent of its pose. */
+export interface ArmModel {
+  pivots: number[];
+  axes: JointAxis[];
+  loads: Load[];
+}
+
+/** Every problem that stops a design being calculated, in input order. */
+export function validateDesign(data: InputData): DesignIssue[] {
+  const { m_payload, customMaterials, links, motors } = data;
+  const issues: DesignIssue[] = [];
+
+  if (m_payload < 0) issues.push(designError("m_payload", "negative", "Payload mass cannot be negative"));
+  customMaterials.forEach((material, i) => {
+    if (!(material.density > 0)) {
+      issues.push(
+        designError(`customMaterials.${i}.density`, "not_positive", `Material "${material.name}" density must be positive`)
+      );
+    }
+  });
+  if (links.length < 1) issues.push(designError("links", "too_few", "At least 1 joint is required"));
+  if (motors.length !== links.length) {
+    issues.push(designError("motors", "count_mismatch", "Each link requires exactly one motor"));
+  }
+
+  links.forEach((link, i) => {
+    const name = `Link ${i + 1}`;
+    if (!(link.length > 0)) issues.push(designError(`links.${i}.length`, "not_positive", `${name} length must be positive`));
+    issues.push(...validateLinkSection(link, i));
+    if (!findMaterial(link.material, customMaterials)) {
+      issues.push(
+        designError(`links.${i}.material`, "unknown_material", `${name} material "${link.material}" is not defined`)
+      );
+    }
+  });
+
+  motors.forEach((motor, i) => {
+    const name = `Motor ${i + 1}`;
+    const error = (field: keyof Motor, code: IssueCode, message: string) =>
+      issues.push(designError(`motors.${i}.${field}`, code, `${name} ${message}`));
+
+    if (motor.mass < 0) error("mass", "negative", "mass cannot be negative");
+    if (motor.bodyLength < 0) error("bodyLength", "negative", "body length cannot be negative");
+    if (motor.pivotPosition < 0) error("pivotPosition", "negative", "pivot position cannot be negative");
+    if (motor.rpm < 0) error("rpm", "negative", "RPM cannot be negative");
+    issues.push(...validateGearStages(motor.gearStages, i));
+    if (motor.ratedTorque < 0) error("ratedTorque", "negative", "rated torque cannot be negative");
+    if (motor.peakTorque < 0) error("peakTorque", "negative", "peak torque cannot be negative");
+    if (motor.maxSpeed < 0) error("maxSpeed", "negative", "maximum speed cannot be negative");
+    if (motor.safetyFactor < 1) error("safetyFactor", "out_of_range", "safety factor must be at least 1");
+    if (!Number.isFinite(motor.angle)) error("angle", "not_a_number", "angle must be a number");
+    if (!JOINT_AXES.includes(motor.axis)) error("axis", "unknown_option", "axis must be pitch, roll or yaw");
+    if (motor.minAngle > motor.maxAngle) error("maxAngle", "out_of_range", "minimum angle cannot exceed its maximum angle");
+    if (motor.speed < 0) error("speed", "negative", "speed cannot be negative");
+    if (motor.acceleration < 0) error("acceleration", "negative", "acceleration cannot be negative");
+  });
+
+  return issues;
+}
+
+/** Validates the inputs and collects every weight carried by the arm. Throws the first problem on invalid data. */
+export function buildArmModel(data: InputData): ArmModel {
+  const issues = validateDesign(data);
+  if (issues.length > 0) throw new Error(issues[0].message);
+
+  // Extract inputs
+  const { m_payload, customMaterials, links, motors } = data;
+  const n = links.length;
+
+  const L = links.map((link) => link.length);
+  // Gearboxes are lumped in with the motor they are mounted on
+  const m_motor = motors.map((motor) => motor.mass + gearTrain(motor.gearStages).mass);
+  const a = motors.map((motor) => motor.bodyLength);
+  const M = motors.map((motor) => motor.pivotPosition);
+  const axes = motors.map((motor) => motor.axis);
+
+  // Joint positions
+  const S: number[] = [];
+  S[0] = L[0];
+  for (let i = 1; i < n; i++) {
+    S[i] = S[i - 1] + L[i];
+  }
+
+  // Every mass hangs off the body it is attached to: link k turns with joint
+  // k, motor k's housing is carried by joint k - 1 and the payload sits at the
+  // tip. Motor housings are slender rods of their body length and the payload
+  // a point mass.
+  const loads: Load[] = [{ source: "Payload", mass: m_payload, body: n - 1, s: S[n - 1], I_axial: 0, I_transverse: 0 }];
+  for (let k = 0; k < n; k++) {
+    const density = findMaterial(links[k].material, customMaterials)!.density;
+    const link = linkMassProperties(links[k], density);
+    loads.push({
+      source: `Link ${k + 1}`,
+      mass: link.mass,
+      body: k,
+      s: S[k] - L[k] + link.centerOfMass,
+      I_axial: link.I_axial,
+      I_transverse: link.I_transverse,
+    });
+    loads.push({
+      source: `Motor ${k + 1}`,
+      mass: m_motor[k],
+      body: k - 1,
+      s: M[k] + a[k] / 2,
+      I_axial: 0,
+      I_transverse: (m_motor[k] * a[k] ** 2) / 12,
+    });
+  }
+
+  return { pivots: M, axes, loads };
+}
+
+// Horizontal lever arm of a load's weight about a joint, signed so that a
+// positive value is a moment the motor has to hold up
+function momentArm(pose: ArmPose, { origin, axis }: JointFrame, load: Load): number {
+  const arm = sub(pose.pointAt(load.body, load.s), origin);
+  return dot(axis, cross(arm, [0, 0, 1]));
+}
+
+/**
+ * Static holding torque of every joint at the given angles (radians). Motor j
+ * holds every load on the bodies it moves against gravity, i.e. the opposite
+ * of the gravity moment about its axis.
+ */
+export function holdingTorques(model: ArmModel, anglesRad: number[]): number[] {
+  const pose = forwardKinematics(model.pivots, model.axes, anglesRad);
+
+  return pose.frames.map((frame, j) => {
+    let torque = 0;
+    for (const load of model.loads) {
+      if (load.body >= j) torque += g * load.mass * momentArm(pose, frame, load);
     }
+    return torque;
+  });
+}
+
+/**
+ * The loads making up each joint's holding torque at the given angles
+ * (radians). Loads without mass are left out unless `includeMassless` is set.
+ */
+export function torqueBreakdown(model: ArmModel, anglesRad: number[], includeMassless = false): TorqueTerm[][] {
+  const pose = forwardKinematics(model.pivots, model.axes, anglesRad);
+
+  return pose.frames.map((frame, j) =>
+    model.loads
+      .filter((load) => load.body >= j && (includeMassless || load.mass > 0))
+      .map((load) => {
+        const weight = g * load.mass;
+        const arm = momentArm(pose, frame, load);
+        return { source: load.source, weight, momentArm: arm, torque: weight * arm };
+      })
+  );
+}
+
+/**
+ * Moment of inertia (kg·m²) of everything each joint moves about that joint's
+ * axis at the given angles (radians), using the parallel-axis theorem.
+ */
+export function jointInertias(model: ArmModel, anglesRad: number[]): number[] {
+  const pose = forwardKinematics(model.pivots, model.axes, anglesRad);
 
-    // Joint positions
-    const S: number[] = [];
-    S[0] = L[0];
-    for (let i = 1; i < 6; i++) {
-      S[i] = S[i - 1] + L[i];
+  return pose.frames.map(({ origin, axis }, j) => {
+    let inertia = 0;
+    for (const load of model.loads) {
+      if (load.body < j) continue;
+      const alignment = dot(axis, pose.directionAt(load.body)) ** 2;
+      const offset = sub(pose.pointAt(load.body, load.s), origin);
+      const radial = sub(offset, scale(axis, dot(offset, axis)));
+      inertia += load.I_axial * alignment + load.I_transverse * (1 - alignment) + load.mass * dot(radial, radial);
     }
+    return inertia;
+  });
+}
 
-    // Weights
-    const W_L = L.map((len: number, i: number) => g * density * pi * r[i] ** 2 * len);
-    const W_M = m_motor.map((m: number) => g * m);
-    const W_P = g * m_payload;
+/**
+ * The outcome of calculating a design: every motor's results, or every error
+ * that stops the calculation. Warnings can come with either.
+ */
+export type CalculationResult =
+  | { results: MotorResult[]; warnings: DesignIssue[] }
+  | { errors: DesignIssue[]; warnings: DesignIssue[] };
+
+export function performCalculations(data: InputData): CalculationResult {
+  const errors = validateDesign(data);
+  const warnings = checkConsistency(data);
+  if (errors.length > 0) return { errors, warnings };
+
+  try {
+    const model = buildArmModel(data);
+    const { motors } = data;
+    const angles = motors.map((motor) => degToRad(motor.angle));
+    const breakdown = torqueBreakdown(model, angles);
+    const I = jointInertias(model, angles);
 
     // Calculate torques and powers for each motor
-    const motorResults: MotorResult[] = [];
-
-    // Motor 6
-    const T6_payload = W_P * (S[5] - M[5]);
-    const T6_L6 = W_L[5] * (S[5] - M[5] - L[5] / 2);
-    const T6_total = T6_payload + T6_L6;
-    const T6_sf = SF[5] * T6_total;
-    const T6_before = R[5] !== 0 ? T6_total / R[5] : 0;
-    const T6_before_sf = SF[5] * T6_before;
-    const P6 = rpm[5] !== 0 ? (T6_before * rpm[5] * 1000 / 9550) : 0;
-    const P6_sf = SF[5] * P6;
-    motorResults.push({ T_total: T6_total, T_sf: T6_sf, T_before: T6_before, T_before_sf: T6_before_sf, P: P6, P_sf: P6_sf });
-
-    // Motor 5
-    const T5_payload = W_P * (S[5] - M[4]);
-    const T5_L6 = W_L[5] * (S[5] - M[4] - L[5] / 2);
-    const T5_M6 = W_M[5] * ((M[5] + a[5] / 2) - M[4]);
-    const T5_L5 = W_L[4] * (S[4] - M[4] - L[4] / 2);
-    const T5_total = T5_payload + T5_L6 + T5_M6 + T5_L5;
-    const T5_sf = SF[4] * T5_total;
-    const T5_before = R[4] !== 0 ? T5_total / R[4] : 0;
-    const T5_before_sf = SF[4] * T5_before;
-    const P5 = rpm[4] !== 0 ? (T5_before * rpm[4] * 1000 / 9550) : 0;
-    const P5_sf = SF[4] * P5;
-    motorResults.push({ T_total: T5_total, T_sf: T5_sf, T_before: T5_before, T_before_sf: T5_before_sf, P: P5, P_sf: P5_sf });
-
-    // Motor 4
-    const T4_payload = W_P * (S[5] - M[3]);
-    const T4_L6 = W_L[5] * (S[5] - M[3] - L[5] / 2);
-    const T4_L5 = W_L[4] * (S[4] - M[3] - L[4] / 2);
-    const T4_M6 = W_M[5] * ((M[5] + a[5] / 2) - M[3]);
-    const T4_M5 = W_M[4] * ((M[4] + a[4] / 2) - M[3]);
-    const T4_L4 = W_L[3] * (S[3] - M[3] - L[3] / 2);
-    const T4_total = T4_payload + T4_L6 + T4_L5 + T4_M6 + T4_M5 + T4_L4;
-    const T4_sf = SF[3] * T4_total;
-    const T4_before = R[3] !== 0 ? T4_total / R[3] : 0;
-    const T4_before_sf = SF[3] * T4_before;
-    const P4 = rpm[3] !== 0 ? (T4_before * rpm[3] * 1000 / 9550) : 0;
-    const P4_sf = SF[3] * P4;
-    motorResults.push({ T_total: T4_total, T_sf: T4_sf, T_before: T4_before, T_before_sf: T4_before_sf, P: P4, P_sf: P4_sf });
-
-    // Motor 3
-    const T3_payload = W_P * (S[5] - M[2]);
-    const T3_L6 = W_L[5] * (S[5] - M[2] - L[5] / 2);
-    const T3_L5 = W_L[4] * (S[4] - M[2] - L[4] / 2);
-    const T3_L4 = W_L[3] * (S[3] - M[2] - L[3] / 2);
-    const T3_M6 = W_M[5] * ((M[5] + a[5] / 2) - M[2]);
-    const T3_M5 = W_M[4] * ((M[4] + a[4] / 2) - M[2]);
-    const T3_M4 = W_M[3] * ((M[3] + a[3] / 2) - M[2]);
-    const T3_L3 = W_L[2] * (S[2] - M[2] - L[2] / 2);
-    const T3_total = T3_payload + T3_L6 + T3_L5 + T3_L4 + T3_M6 + T3_M5 + T3_M4 + T3_L3;
-    const T3_sf = SF[2] * T3_total;
-    const T3_before = R[2] !== 0 ? T3_total / R[2] : 0;
-    const T3_before_sf = SF[2] * T3_before;
-    const P3 = rpm[2] !== 0 ? (T3_before * rpm[2] * 1000 / 9550) : 0;
-    const P3_sf = SF[2] * P3;
-    motorResults.push({ T_total: T3_total, T_sf: T3_sf, T_before: T3_before, T_before_sf: T3_before_sf, P: P3, P_sf: P3_sf });
-
-    // Motor 2
-    const T2_payload = W_P * (S[5] - M[1]);
-    const T2_L6 = W_L[5] * (S[5] - M[1] - L[5] / 2);
-    const T2_L5 = W_L[4] * (S[4] - M[1] - L[4] / 2);
-    const T2_L4 = W_L[3] * (S[3] - M[1] - L[3] / 2);
-    const T2_L3 = W_L[2] * (S[2] - M[1] - L[2] / 2);
-    const T2_L2 = W_L[1] * (S[1] - M[1] - L[1] / 2);
-    const T2_M6 = W_M[5] * ((M[5] + a[5] / 2) - M[1]);
-    const T2_M5 = W_M[4] * ((M[4] + a[4] / 2) - M[1]);
-    const T2_M4 = W_M[3] * ((M[3] + a[3] / 2) - M[1]);
-    const T2_M3 = W_M[2] * ((M[2] + a[2] / 2) - M[1]);
-    const T2_total = T2_payload + T2_L6 + T2_L5 + T2_L4 + T2_L3 + T2_L2 + T2_M6 + T2_M5 + T2_M4 + T2_M3;
-    const T2_sf = SF[1] * T2_total;
-    const T2_before = R[1] !== 0 ? T2_total / R[1] : 0;
-    const T2_before_sf = SF[1] * T2_before;
-    const P2 = rpm[1] !== 0 ? (T2_before * rpm[1] * 1000 / 9550) : 0;
-    const P2_sf = SF[1] * P2;
-    motorResults.push({ T_total: T2_total, T_sf: T2_sf, T_before: T2_before, T_before_sf: T2_before_sf, P: P2, P_sf: P2_sf });
-
-    // Motor 1
-    const T1_payload = W_P * (S[5] - M[0]);
-    const T1_L6 = W_L[5] * (S[5] - M[0] - L[5] / 2);
-    const T1_L5 = W_L[4] * (S[4] - M[0] - L[4] / 2);
-    const T1_L4 = W_L[3] * (S[3] - M[0] - L[3] / 2);
-    const T1_L3 = W_L[2] * (S[2] - M[0] - L[2] / 2);
-    const T1_L2 = W_L[1] * (S[1] - M[0] - L[1] / 2);
-    const T1_L1 = W_L[0] * (S[0] - M[0] - L[0] / 2);
-    const T1_M6 = W_M[5] * ((M[5] + a[5] / 2) - M[0]);
-    const T1_M5 = W_M[4] * ((M[4] + a[4] / 2) - M[0]);
-    const T1_M4 = W_M[3] * ((M[3] + a[3] / 2) - M[0]);
-    const T1_M3 = W_M[2] * ((M[2] + a[2] / 2) - M[0]);
-    const T1_M2 = W_M[1] * ((M[1] + a[1] / 2) - M[0]);
-    const T1_total = T1_payload + T1_L6 + T1_L5 + T1_L4 + T1_L3 + T1_L2 + T1_L1 + T1_M6 + T1_M5 + T1_M4 + T1_M3 + T1_M2;
-    const T1_sf = SF[0] * T1_total;
-    const T1_before = R[0] !== 0 ? T1_total / R[0] : 0;
-    const T1_before_sf = SF[0] * T1_before;
-    const P1 = rpm[0] !== 0 ? (T1_before * rpm[0] * 1000 / 9550) : 0;
-    const P1_sf = SF[0] * P1;
-    motorResults.push({ T_total: T1_total, T_sf: T1_sf, T_before: T1_before, T_before_sf: T1_before_sf, P: P1, P_sf: P1_sf });
-
-    return motorResults;
+    const results = motors.map((motor, j): MotorResult => {
+      const SF = motor.safetyFactor;
+      const { ratio: R, efficiency: eta } = gearTrain(motor.gearStages);
+      const rpm = motor.rpm;
+
+      // Worst case: the joint accelerates against gravity, so the inertial
+      // torque adds to the magnitude of the holding torque.
+      const T_static = breakdown[j].reduce((sum, term) => sum + term.torque, 0);
+      const T_dynamic = I[j] * degToRad(motor.acceleration);
+      const T_total = T_static + (T_static < 0 ? -T_dynamic : T_dynamic);
+      const T_sf = SF * T_total;
+      const T_before = R !== 0 ? T_total / (R * eta) : 0;
+      const T_before_sf = SF * T_before;
+      const T_stages = stageOutputTorques(motor.gearStages, T_sf);
+      const P = rpm !== 0 ? (T_before * rpm * 1000 / 9550) : 0;
+      const P_sf = SF * P;
+      const P_peak = Math.abs(T_total) * degToRad(motor.speed);
+      return {
+        T_static,
+        I: I[j],
+        T_dynamic,
+        T_total,
+        T_sf,
+        T_before,
+        T_before_sf,
+        T_stages,
+        P,
+        P_sf,
+        P_peak,
+        breakdown: breakdown[j],
+      };
+    });
+    return { results, warnings };
   } catch (error: any) {
-    return { error: error.message || "An error occurred during calculations" };
+    const message = error.message || "An error occurred during calculations";
+    return { errors: [designError("", "calculation_failed", message)], warnings };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,52 @@
+import type { MotorResult } from "./calculations";
+import type { InputValues } from "./schema";
+import type { Quantity } from "./units";
+
+/** A calculated design kept aside for comparison. */
+export interface PinnedDesign {
+  id: string;
+  label: string;
+  design: InputValues;
+  results: MotorResult[];
+}
+
+type ComparedKey = "T_static" | "T_dynamic" | "T_total" | "T_sf" | "T_before" | "T_before_sf" | "P" | "P_sf" | "P_peak" | "I";
+
+export const COMPARED_VALUES: { key: ComparedKey; label: string; quantity?: Quantity }[] = [
+  { key: "T_static", label: "Torque Static", quantity: "torque" },
+  { key: "T_dynamic", label: "Torque Dynamic", quantity: "torque" },
+  { key: "T_total", label: "Torque Total", quantity: "torque" },
+  { key: "T_sf", label: "Torque SF", quantity: "torque" },
+  { key: "T_before", label: "Torque Before", quantity: "torque" },
+  { key: "T_before_sf", label: "Torque Before SF", quantity: "torque" },
+  { key: "P", label: "Power", quantity: "power" },
+  { key: "P_sf", label: "Power SF", quantity: "power" },
+  { key: "P_peak", label: "Peak Power", quantity: "power" },
+  { key: "I", label: "Inertia (kg·m²)" },
+];
+
+export interface Delta {
+  /** Value minus the baseline, in SI. */
+  absolute: number;
+  /**
+   * Change in magnitude relative to the baseline in percent, or null when the
+   * baseline is zero. Positive is worse, whatever the values' signs.
+   */
+  percent: number | null;
+  /** Every compared value is a requirement on the motor, so a smaller magnitude is better. */
+  change: "better" | "worse" | "same";
+}
+
+export function compareValue(baseline: number, value: number): Delta {
+  const absolute = value - baseline;
+  const scale = Math.max(Math.abs(baseline), Math.abs(value));
+  // Differences at floating-point noise level count as no change
+  const change =
+    Math.abs(Math.abs(value) - Math.abs(baseline)) <= 1e-9 * scale
+      ? "same"
+      : Math.abs(value) < Math.abs(baseline)
+        ? "better"
+        : "worse";
+  const percent = baseline !== 0 ? ((Math.abs(value) - Math.abs(baseline)) / Math.abs(baseline)) * 100 : null;
+  return { absolute, percent, change };
+}
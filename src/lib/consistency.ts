@@ -0,0 +1,104 @@
+import type { InputData } from "./calculations";
+import { designWarning, type DesignIssue } from "./validation";
+
+// Lengths closer than this (m) count as equal, so values converted from other
+// units still line up
+const TOLERANCE = 1e-9;
+
+/**
+ * Suspicious geometry and drive settings in a design that still calculates:
+ * pivots out of order or off the links that carry them, motor housings that
+ * overlap, and gear ratios or speeds of 0 that report a torque or power of 0.
+ * Every warning says how to fix it. Pivots may coincide, as in a shoulder
+ * with two joints at one point, and the housings of such joints are taken to
+ * be built together rather than overlapping.
+ */
+export function checkConsistency(data: InputData): DesignIssue[] {
+  const { links, motors } = data;
+  const n = Math.min(links.length, motors.length);
+  const issues: DesignIssue[] = [];
+
+  // Link k runs from start[k] to end[k] along the arm and turns with joint k,
+  // whose motor is mounted at pivot M[k] on the body before it
+  const end: number[] = [];
+  for (let k = 0; k < n; k++) end[k] = (end[k - 1] ?? 0) + links[k].length;
+  const start = (k: number) => end[k] - links[k].length;
+  const M = motors.slice(0, n).map((motor) => motor.pivotPosition);
+
+  for (let i = 0; i < n; i++) {
+    const name = `Motor ${i + 1}`;
+    const pivot = `motors.${i}.pivotPosition`;
+
+    if (i > 0 && M[i] < M[i - 1] - TOLERANCE) {
+      issues.push(
+        designWarning(
+          pivot,
+          "pivots_not_increasing",
+          `${name} pivot is nearer the base than motor ${i}'s. Pivot positions are distances from the base, so list the joints from the base outwards or correct the pivot positions.`
+        )
+      );
+    }
+    if (M[i] > start(i) + TOLERANCE) {
+      const where = i === 0 ? "0, the base" : `the total length of links 1 to ${i}`;
+      issues.push(
+        designWarning(
+          pivot,
+          "pivot_outside_link",
+          `${name} pivot is beyond the start of link ${i + 1}, so part of the link is behind the joint that turns it${
+            M[i] > end[n - 1] + TOLERANCE ? " and the pivot is past the tip of the arm" : ""
+          }. Set the pivot position to where link ${i + 1} starts, ${where}.`
+        )
+      );
+    } else if (i > 0 && M[i] < start(i - 1) - TOLERANCE) {
+      issues.push(
+        designWarning(
+          pivot,
+          "pivot_outside_link",
+          `${name} pivot is nearer the base than link ${i}, which carries it. Move the pivot onto link ${i}, usually to its end where link ${i + 1} starts.`
+        )
+      );
+    }
+
+    motors[i].gearStages.forEach((stage, k) => {
+      if (stage.ratio === 0) {
+        issues.push(
+          designWarning(
+            `motors.${i}.gearStages.${k}.ratio`,
+            "zero_gear_ratio",
+            `${name} gear stage ${k + 1} ratio is 0, so the torque before the gearbox and the power are reported as 0. Enter the stage's reduction, e.g. 10 for 10:1, or remove the stage for a direct drive.`
+          )
+        );
+      }
+    });
+    if (motors[i].rpm === 0) {
+      issues.push(
+        designWarning(
+          `motors.${i}.rpm`,
+          "zero_rpm",
+          `${name} RPM is 0, so its power is reported as 0. Enter the motor's speed before the gearbox.`
+        )
+      );
+    }
+  }
+
+  // Each housing runs from its pivot out by its body length
+  for (let j = 1; j < n; j++) {
+    for (let i = 0; i < j; i++) {
+      if (Math.abs(M[i] - M[j]) <= TOLERANCE) continue;
+      const overlap =
+        Math.min(M[i] + motors[i].bodyLength, M[j] + motors[j].bodyLength) - Math.max(M[i], M[j]);
+      if (overlap > TOLERANCE) {
+        issues.push(
+          designWarning(
+            `motors.${j}.pivotPosition`,
+            "motors_overlap",
+            `Motor ${j + 1} body overlaps motor ${i + 1}'s, which runs from its pivot out by its body length. Move motor ${j + 1} further from the base or shorten the motors' body lengths. If the two joints turn about one point, as in a shoulder, give them the same pivot position.`
+          )
+        );
+        break;
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,108 @@
+import type { MotorResult } from "./calculations";
+import { parseProjectFile, type ProjectFile } from "./projectFile";
+import { inputSchema, type InputValues } from "./schema";
+
+export interface LibraryDesign {
+  id: string;
+  name: string;
+  tags: string[];
+  /** ISO 8601 times. */
+  createdAt: string;
+  updatedAt: string;
+  project: ProjectFile;
+}
+
+export interface HistoryEntry {
+  id: string;
+  /** ISO 8601 time of the calculation. */
+  timestamp: string;
+  design: InputValues;
+  results: MotorResult[];
+}
+
+/** Oldest runs are dropped beyond this, keeping browser storage small. */
+export const HISTORY_LIMIT = 50;
+
+const LIBRARY_KEY = "robotic-arm-calculator:designs";
+const HISTORY_KEY = "robotic-arm-calculator:history";
+
+export function createEntryId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Adds a design to the library, or updates the one with the same name,
+ * keeping its tags and creation time.
+ */
+export function saveToLibrary(designs: LibraryDesign[], project: ProjectFile): LibraryDesign[] {
+  const name = project.metadata.name.trim();
+  const existing = designs.find((design) => design.name === name);
+  const now = new Date().toISOString();
+  const saved: LibraryDesign = existing
+    ? { ...existing, updatedAt: now, project }
+    : { id: createEntryId(), name, tags: [], createdAt: now, updatedAt: now, project };
+  return [saved, ...designs.filter((design) => design !== existing)];
+}
+
+/** Records a calculation, unless it repeats the latest one (e.g. after restoring a run). */
+export function addToHistory(history: HistoryEntry[], design: InputValues, results: MotorResult[]): HistoryEntry[] {
+  if (history.length > 0 && JSON.stringify(history[0].design) === JSON.stringify(design)) return history;
+  const entry: HistoryEntry = { id: createEntryId(), timestamp: new Date().toISOString(), design, results };
+  return [entry, ...history].slice(0, HISTORY_LIMIT);
+}
+
+// Reads a stored list, keeping the entries that still parse
+function loadList<T>(key: string, parse: (entry: any) => T): T[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(key) ?? "[]");
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((entry) => {
+      try {
+        return [parse(entry)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+function saveList(key: string, entries: unknown[]) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(key, JSON.stringify(entries));
+}
+
+/** Saved designs in this browser; projects from older versions are migrated as they load. */
+export function loadLibrary(): LibraryDesign[] {
+  return loadList(LIBRARY_KEY, (entry) => ({
+    id: String(entry.id),
+    name: String(entry.name),
+    tags: Array.isArray(entry.tags) ? entry.tags.map(String) : [],
+    createdAt: String(entry.createdAt),
+    updatedAt: String(entry.updatedAt),
+    project: parseProjectFile(JSON.stringify(entry.project)),
+  }));
+}
+
+export function saveLibrary(designs: LibraryDesign[]) {
+  saveList(LIBRARY_KEY, designs);
+}
+
+/** Past calculations in this browser, newest first; runs whose inputs no longer validate are dropped. */
+export function loadHistory(): HistoryEntry[] {
+  return loadList(HISTORY_KEY, (entry) => {
+    if (!Array.isArray(entry.results)) throw new Error("Missing results");
+    return {
+      id: String(entry.id),
+      timestamp: String(entry.timestamp),
+      design: inputSchema.parse(entry.design),
+      results: entry.results,
+    };
+  });
+}
+
+export function saveHistory(history: HistoryEntry[]) {
+  saveList(HISTORY_KEY, history);
+}
@@ -0,0 +1,631 @@
+import {
+  LOAD_COLORS,
+  fitArmDiagram,
+  loadColor,
+  safeLayoutArmDiagram,
+  scaleBarLength,
+  type Point2,
+} from "./armDiagram";
+import { buildArmModel, g, performCalculations, type CalculationResult, type MotorResult } from "./calculations";
+import { gearTrain } from "./gearing";
+import { findMaterial } from "./materials";
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, type Font } from "./pdf";
+import type { ProjectMetadata } from "./projectFile";
+import { checkRatings, summarizeRatings, WARN_UTILISATION, type RatingCheck, type RatingStatus } from "./ratingCheck";
+import type { InputValues } from "./schema";
+import { CROSS_SECTION_LABELS } from "./sections";
+import { QUANTITIES, formatQuantity, fromSI, unitLabel, type Quantity, type UnitSettings } from "./units";
+
+/*
+ * The design report is a PDF for sign-off and archiving, in this order:
+ *
+ *   Title block   Project name, author, notes, date and units.
+ *   Summary       Whether the motors are within their ratings, and any inputs to check.
+ *   Assumptions   Gravity, how torques and powers are found, pose and safety factors.
+ *   Inputs        Payload, materials, links, motors and gear stages.
+ *   Arm Diagram   The side view shown in the calculator.
+ *   Results       Every motor's torques and powers, rating checks and static torque breakdown.
+ *
+ * Values are in the units chosen in the calculator. A design that cannot be
+ * calculated still gets its inputs reported, with the reason in the summary.
+ */
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const BOTTOM = PAGE_HEIGHT - MARGIN;
+const LINE_SPACING = 1.35;
+/** Padding inside table cells. */
+const CELL_PADDING = 4;
+
+const MUTED = "#64748b";
+const RULE = "#cbd5e1";
+const HEADER_FILL = "#f1f5f9";
+
+// The rating table's colours, with a light tint for the summary banner
+const STATUS_COLORS: Record<RatingStatus, string> = { pass: "#16a34a", warn: "#d97706", fail: "#ef4444" };
+const STATUS_TINTS: Record<RatingStatus, string> = { pass: "#f0fdf4", warn: "#fffbeb", fail: "#fef2f2" };
+const STATUS_LABELS: Record<RatingStatus, string> = { pass: "Pass", warn: "Warn", fail: "Fail" };
+
+interface Cell {
+  text: string;
+  color?: string;
+  font?: Font;
+}
+
+type CellValue = string | Cell;
+
+const toCell = (value: CellValue): Cell => (typeof value === "string" ? { text: value } : value);
+
+// An input value as the form shows it, rounded only to hide floating-point noise from unit conversion
+const entered = (units: UnitSettings, quantity: Quantity, value: number) =>
+  String(Number(fromSI(units, quantity, value).toPrecision(6)));
+
+// Writes the report top to bottom, starting new pages as they fill up
+class ReportWriter {
+  readonly doc: PdfDocument;
+  /** Top of the free space on the current page. */
+  y = 0;
+
+  constructor(
+    title: string,
+    private footer: string
+  ) {
+    this.doc = new PdfDocument(title);
+    this.newPage();
+  }
+
+  newPage() {
+    this.doc.addPage();
+    const footerY = PAGE_HEIGHT - MARGIN / 2;
+    this.doc.text(this.footer, MARGIN, footerY, { size: 8, color: MUTED });
+    this.doc.text(`Page ${this.doc.pageCount}`, PAGE_WIDTH - MARGIN, footerY, { size: 8, color: MUTED, align: "right" });
+    this.y = MARGIN;
+  }
+
+  /** Starts a new page unless `height` more fits on this one. */
+  ensureSpace(height: number) {
+    if (this.y + height > BOTTOM) this.newPage();
+  }
+
+  /** Section heading, kept on the same page as the first `keepWith` points of its section. */
+  heading(text: string, keepWith = 50) {
+    this.ensureSpace(38 + keepWith);
+    this.y += 14;
+    this.doc.text(text, MARGIN, this.y + 14, { size: 14, font: "bold" });
+    this.y += 24;
+  }
+
+  subheading(text: string) {
+    this.ensureSpace(60);
+    this.y += 6;
+    this.doc.text(text, MARGIN, this.y + 10, { size: 10, font: "bold" });
+    this.y += 18;
+  }
+
+  paragraph(text: string, { size = 9, color, font }: { size?: number; color?: string; font?: Font } = {}) {
+    const lineHeight = size * LINE_SPACING;
+    for (const line of this.doc.wrap(text, CONTENT_WIDTH, size, font)) {
+      this.ensureSpace(lineHeight);
+      this.doc.text(line, MARGIN, this.y + size, { size, color, font });
+      this.y += lineHeight;
+    }
+    this.y += 4;
+  }
+
+  /** Labels with their values beside them. */
+  fields(pairs: [string, string][], size = 9) {
+    const labelWidth = Math.max(...pairs.map(([label]) => this.doc.textWidth(label, size, "bold"))) + 12;
+    const lineHeight = size * LINE_SPACING;
+    for (const [label, value] of pairs) {
+      const lines = this.doc.wrap(value, CONTENT_WIDTH - labelWidth, size);
+      this.ensureSpace(lines.length * lineHeight);
+      this.doc.text(label, MARGIN, this.y + size, { size, font: "bold" });
+      for (const line of lines) {
+        this.doc.text(line, MARGIN + labelWidth, this.y + size, { size });
+        this.y += lineHeight;
+      }
+    }
+    this.y += 4;
+  }
+
+  /** A boxed message in a colour, with a bold title. */
+  banner(title: string, detail: string, color: string, fill: string) {
+    const inner = CONTENT_WIDTH - 2 * 10;
+    const titleLines = this.doc.wrap(title, inner, 11, "bold");
+    const detailLines = this.doc.wrap(detail, inner, 9);
+    const height = 10 + titleLines.length * 15 + detailLines.length * 12 + 8;
+    this.ensureSpace(height);
+    this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, height, { stroke: color, fill, lineWidth: 1 });
+    let y = this.y + 10;
+    for (const line of titleLines) {
+      this.doc.text(line, MARGIN + 10, y + 11, { size: 11, font: "bold", color });
+      y += 15;
+    }
+    for (const line of detailLines) {
+      this.doc.text(line, MARGIN + 10, y + 9, { size: 9 });
+      y += 12;
+    }
+    this.y += height + 8;
+  }
+
+  /**
+   * A table as wide as its contents need, up to the page width; cells wrap
+   * when it would be wider. The header is repeated on every page it spans.
+   */
+  table(headers: string[], rows: CellValue[][], size = 8) {
+    const cells = rows.map((row) => row.map(toCell));
+    const lineHeight = size * LINE_SPACING;
+
+    // Columns get room for their widest value and the header's longest word, then the whole header if it fits
+    const widest = (texts: string[], font: Font = "regular") =>
+      Math.max(0, ...texts.map((text) => this.doc.textWidth(text, size, font)));
+    const natural = headers.map(
+      (header, c) =>
+        Math.max(
+          widest(cells.map((row) => row[c]?.text ?? "")),
+          widest(header.split(" "), "bold")
+        ) +
+        2 * CELL_PADDING
+    );
+    const wanted = headers.map((header, c) => Math.max(natural[c], widest([header], "bold") + 2 * CELL_PADDING));
+    const naturalWidth = natural.reduce((sum, width) => sum + width, 0);
+    let widths: number[];
+    if (naturalWidth > CONTENT_WIDTH) {
+      widths = natural.map((width) => (width * CONTENT_WIDTH) / naturalWidth);
+    } else {
+      const needed = wanted.reduce((sum, width, c) => sum + width - natural[c], 0);
+      const share = needed > 0 ? Math.min(1, (CONTENT_WIDTH - naturalWidth) / needed) : 0;
+      widths = natural.map((width, c) => width + (wanted[c] - width) * share);
+    }
+    const tableWidth = widths.reduce((sum, width) => sum + width, 0);
+
+    const layoutRow = (row: Cell[], font?: Font) => {
+      const lines = widths.map((width, c) =>
+        this.doc.wrap(row[c]?.text ?? "", width - 2 * CELL_PADDING, size, row[c]?.font ?? font)
+      );
+      return { lines, height: Math.max(...lines.map((cell) => cell.length)) * lineHeight + 2 * CELL_PADDING };
+    };
+
+    const drawRow = (row: Cell[], { lines, height }: ReturnType<typeof layoutRow>, header: boolean) => {
+      if (header) this.doc.rect(MARGIN, this.y, tableWidth, height, { fill: HEADER_FILL });
+      let x = MARGIN;
+      lines.forEach((cellLines, c) => {
+        cellLines.forEach((line, i) => {
+          this.doc.text(line, x + CELL_PADDING, this.y + CELL_PADDING + i * lineHeight + size, {
+            size,
+            font: header ? "bold" : row[c]?.font,
+            color: row[c]?.color,
+          });
+        });
+        x += widths[c];
+      });
+      this.y += height;
+      this.doc.line(MARGIN, this.y, MARGIN + tableWidth, this.y, { stroke: RULE, lineWidth: header ? 1 : 0.5 });
+    };
+
+    const headerRow = headers.map((text) => ({ text }));
+    const headerLayout = layoutRow(headerRow, "bold");
+    const rowLayouts = cells.map((row) => layoutRow(row));
+
+    this.ensureSpace(headerLayout.height + (rowLayouts[0]?.height ?? 0));
+    drawRow(headerRow, headerLayout, true);
+    cells.forEach((row, r) => {
+      if (this.y + rowLayouts[r].height > BOTTOM) {
+        this.newPage();
+        drawRow(headerRow, headerLayout, true);
+      }
+      drawRow(row, rowLayouts[r], false);
+    });
+    this.y += 12;
+  }
+}
+
+function writeTitleBlock(report: ReportWriter, metadata: ProjectMetadata, name: string, date: Date) {
+  const { doc } = report;
+  doc.text("Robotic Arm Design Report", MARGIN, report.y + 20, { size: 20, font: "bold" });
+  report.y += 30;
+  doc.text(name, MARGIN, report.y + 14, { size: 14 });
+  report.y += 26;
+
+  const fields: [string, string][] = [
+    ["Author", metadata.author.trim() || "-"],
+    ["Report date", date.toLocaleString(undefined, { dateStyle: "long", timeStyle: "short" })],
+  ];
+  if (metadata.savedAt) {
+    fields.push(["Project saved", new Date(metadata.savedAt).toLocaleString(undefined, { dateStyle: "long", timeStyle: "short" })]);
+  }
+  fields.push(["Units", QUANTITIES.map((quantity) => unitLabel(metadata.units, quantity)).join(", ")]);
+  if (metadata.notes.trim()) fields.push(["Notes", metadata.notes.trim()]);
+  report.fields(fields);
+
+  doc.line(MARGIN, report.y, MARGIN + CONTENT_WIDTH, report.y, { stroke: RULE });
+  report.y += 4;
+}
+
+function writeSummary(report: ReportWriter, values: InputValues, calculation: CalculationResult) {
+  report.heading("Summary");
+  writeStatus(report, values, calculation);
+  if (calculation.warnings.length > 0) {
+    report.banner(
+      "Check these inputs",
+      calculation.warnings.map((warning) => warning.message).join("\n"),
+      STATUS_COLORS.warn,
+      STATUS_TINTS.warn
+    );
+  }
+}
+
+function writeStatus(report: ReportWriter, values: InputValues, calculation: CalculationResult) {
+  if ("errors" in calculation) {
+    report.banner(
+      "Fail: the design cannot be calculated",
+      calculation.errors.map((error) => error.message).join("\n"),
+      STATUS_COLORS.fail,
+      STATUS_TINTS.fail
+    );
+    return;
+  }
+  const summary = summarizeRatings(checkRatings(values.motors, calculation.results));
+  if (summary === null) {
+    report.banner(
+      "Motor ratings not checked",
+      "No motor has a rated torque or speed entered, so the results below are requirements only.",
+      MUTED,
+      HEADER_FILL
+    );
+    return;
+  }
+  report.banner(
+    `${STATUS_LABELS[summary.status]}: ${summary.title}`,
+    summary.detail,
+    STATUS_COLORS[summary.status],
+    STATUS_TINTS[summary.status]
+  );
+}
+
+function writeAssumptions(report: ReportWriter, values: InputValues) {
+  report.heading("Assumptions");
+  report.paragraph(`Gravity is standard gravity, g = ${g} m/s², acting straight down.`);
+  report.paragraph(
+    "Static torques hold the arm against gravity at the pose below. Dynamic torques accelerate everything a joint " +
+      "moves at the joint's acceleration and are added in the direction of the static torque, the worst case."
+  );
+  report.paragraph(
+    "Torque before the gearbox is the joint torque divided by the gear ratio and efficiency. Power is that torque " +
+      "at the motor's rpm; peak power is the joint torque at the joint's speed."
+  );
+  report.paragraph(
+    "Safety factors multiply the required torques and powers, and ratings are checked against these. Using more " +
+      `than ${Math.round(WARN_UTILISATION * 100)}% of a rating is a warning and more than 100% a failure.`
+  );
+
+  report.subheading("Pose and Safety Factors");
+  report.table(
+    ["Motor", "Axis", "Angle (°)", "Range (°)", "Speed (°/s)", "Acceleration (°/s²)", "Safety Factor"],
+    values.motors.map((motor, j) => [
+      String(j + 1),
+      motor.axis,
+      String(motor.angle),
+      `${motor.minAngle} to ${motor.maxAngle}`,
+      String(motor.speed),
+      String(motor.acceleration),
+      String(motor.safetyFactor),
+    ])
+  );
+}
+
+function linkDimensions(link: InputValues["links"][number], units: UnitSettings) {
+  const length = (value: number) => entered(units, "length", value);
+  switch (link.crossSection) {
+    case "solid":
+      return `radius ${length(link.radius)}`;
+    case "tube":
+      return `radius ${length(link.radius)}, wall ${length(link.wallThickness)}`;
+    case "box":
+      return `${length(link.width)} × ${length(link.height)}, wall ${length(link.wallThickness)}`;
+    case "extrusion":
+      return `${link.profile} profile`;
+    case "printed":
+      return `${length(link.width)} × ${length(link.height)}, shell ${length(link.wallThickness)}, ${link.infill}% infill`;
+    case "mass":
+      return `centre of mass at ${length(link.centerOfMass)}`;
+  }
+}
+
+function writeInputs(report: ReportWriter, values: InputValues, units: UnitSettings) {
+  const L = unitLabel(units, "length");
+  const M = unitLabel(units, "mass");
+  const T = unitLabel(units, "torque");
+  const length = (value: number) => entered(units, "length", value);
+  const mass = (value: number) => entered(units, "mass", value);
+  const torque = (value: number) => (value > 0 ? entered(units, "torque", value) : "-");
+
+  // Masses as the calculation takes them: links from their material and section, motors with their gearboxes
+  const masses = new Map<string, number>();
+  try {
+    for (const load of buildArmModel(values).loads) masses.set(load.source, load.mass);
+  } catch {
+    // The summary says why; the masses are left blank
+  }
+  const loadMass = (source: string) => {
+    const value = masses.get(source);
+    return value === undefined ? "-" : formatQuantity(units, "mass", value, 3);
+  };
+
+  report.heading("Inputs");
+  report.fields([["Payload mass", `${mass(values.m_payload)} ${M}`]]);
+
+  const materialIds = [...new Set(values.links.filter((link) => link.crossSection !== "mass").map((link) => link.material))];
+  if (materialIds.length > 0) {
+    report.subheading("Materials");
+    report.table(
+      ["Material", `Density (${unitLabel(units, "density")})`, "Young's Modulus (GPa)", "Yield Strength (MPa)"],
+      materialIds.map((id) => {
+        const material = findMaterial(id, values.customMaterials);
+        return material
+          ? [
+              material.name,
+              entered(units, "density", material.density),
+              String(material.youngsModulus),
+              String(material.yieldStrength),
+            ]
+          : [id, "-", "-", "-"];
+      })
+    );
+  }
+
+  report.subheading("Links");
+  report.table(
+    ["Link", `Length (${L})`, "Material", "Cross Section", `Dimensions (${L})`, `Mass (${M})`],
+    values.links.map((link, k) => [
+      String(k + 1),
+      length(link.length),
+      link.crossSection === "mass" ? "-" : (findMaterial(link.material, values.customMaterials)?.name ?? link.material),
+      CROSS_SECTION_LABELS[link.crossSection],
+      linkDimensions(link, units),
+      loadMass(`Link ${k + 1}`),
+    ])
+  );
+
+  report.subheading("Motors");
+  report.table(
+    [
+      "Motor",
+      `Mass (${M})`,
+      `Body Length (${L})`,
+      `Pivot Position (${L})`,
+      "Motor Speed (rpm)",
+      `Rated Torque (${T})`,
+      `Peak Torque (${T})`,
+      "Max Speed (rpm)",
+      `Mass With Gearbox (${M})`,
+    ],
+    values.motors.map((motor, j) => [
+      String(j + 1),
+      mass(motor.mass),
+      length(motor.bodyLength),
+      length(motor.pivotPosition),
+      String(motor.rpm),
+      torque(motor.ratedTorque),
+      torque(motor.peakTorque),
+      motor.maxSpeed > 0 ? String(motor.maxSpeed) : "-",
+      loadMass(`Motor ${j + 1}`),
+    ])
+  );
+
+  report.subheading("Gear Stages");
+  report.table(
+    ["Motor", "Stages (ratio at efficiency)", "Overall Ratio", "Overall Efficiency (%)", `Gearbox Mass (${M})`],
+    values.motors.map((motor, j) => {
+      const train = gearTrain(motor.gearStages);
+      return [
+        String(j + 1),
+        motor.gearStages.map((stage) => `${stage.ratio}:1 at ${stage.efficiency}%`).join(", ") || "Direct drive",
+        Number(train.ratio.toPrecision(6)).toString(),
+        (train.efficiency * 100).toFixed(1),
+        mass(motor.gearStages.reduce((sum, stage) => sum + stage.mass, 0)),
+      ];
+    })
+  );
+}
+
+const DIAGRAM_HEIGHT = 260;
+const DIAGRAM_PADDING = 16;
+/** Length of the heaviest weight's arrow; the others are drawn to the same scale. */
+const ARROW_LENGTH = 40;
+
+function writeDiagram(report: ReportWriter, values: InputValues, units: UnitSettings) {
+  const diagram = safeLayoutArmDiagram(values);
+  if ("error" in diagram) {
+    report.heading("Arm Diagram");
+    report.paragraph(`Arm diagram unavailable: ${diagram.error}`, { color: MUTED });
+    return;
+  }
+
+  const { doc } = report;
+  report.heading("Arm Diagram", DIAGRAM_HEIGHT + 30);
+  const top = report.y;
+  const { scale, toScreen } = fitArmDiagram(diagram, CONTENT_WIDTH, DIAGRAM_HEIGHT, DIAGRAM_PADDING, ARROW_LENGTH);
+  const page = ([x, y]: Point2): Point2 => [MARGIN + x, top + y];
+  const at = (point: Point2) => page(toScreen(point));
+
+  doc.rect(MARGIN, top, CONTENT_WIDTH, DIAGRAM_HEIGHT, { stroke: RULE });
+  const [baseX, groundY] = at([0, 0]);
+  doc.line(MARGIN, groundY, MARGIN + CONTENT_WIDTH, groundY, { stroke: RULE, dash: [3, 3] });
+  doc.rect(baseX - 10, groundY, 20, 7, { fill: RULE });
+
+  for (const [a, b] of diagram.links) {
+    doc.line(...at(a), ...at(b), { stroke: "#64748b", lineWidth: 4, lineCap: "round" });
+  }
+  for (const [a, b] of diagram.motors) {
+    doc.line(...at(a), ...at(b), { stroke: "#334155", lineWidth: 9 });
+  }
+  for (const joint of diagram.joints) {
+    doc.circle(...at(joint), 4, { stroke: "#1e293b", fill: "#ffffff", lineWidth: 1.5 });
+  }
+
+  const maxWeight = Math.max(...diagram.loads.map((load) => load.weight), 0);
+  for (const load of diagram.loads) {
+    const [cx, cy] = at(load.position);
+    const color = loadColor(load.source);
+    const length = maxWeight > 0 ? Math.max(6, (load.weight / maxWeight) * ARROW_LENGTH) : 0;
+    doc.line(cx, cy, cx, cy + length - 4, { stroke: color, lineWidth: 1.5 });
+    doc.polygon(
+      [
+        [cx - 3, cy + length - 5],
+        [cx + 3, cy + length - 5],
+        [cx, cy + length],
+      ],
+      { fill: color }
+    );
+    // Centre of mass symbol: a circle with opposite quarters filled
+    const r = 3.5;
+    const quarter = (start: number): Point2[] => [
+      [cx, cy],
+      ...Array.from({ length: 7 }, (_, i): Point2 => {
+        const angle = start + (i * Math.PI) / 12;
+        return [cx + r * Math.cos(angle), cy + r * Math.sin(angle)];
+      }),
+    ];
+    doc.circle(cx, cy, r, { stroke: color, fill: "#ffffff", lineWidth: 1 });
+    doc.polygon(quarter(0), { fill: color });
+    doc.polygon(quarter(Math.PI), { fill: color });
+  }
+
+  // Scale bar in the bottom-left corner
+  const barLength = scaleBarLength((CONTENT_WIDTH - 2 * DIAGRAM_PADDING) / scale / 4);
+  const [barX, barY] = page([DIAGRAM_PADDING, DIAGRAM_HEIGHT - 10]);
+  doc.line(barX, barY, barX + barLength * scale, barY, { stroke: "#000000", lineWidth: 1.5 });
+  doc.line(barX, barY - 3, barX, barY + 3, { stroke: "#000000" });
+  doc.line(barX + barLength * scale, barY - 3, barX + barLength * scale, barY + 3, { stroke: "#000000" });
+  doc.text(
+    `${Number(fromSI(units, "length", barLength).toPrecision(3))} ${unitLabel(units, "length")}`,
+    barX + barLength * scale + 5,
+    barY + 3,
+    { size: 8 }
+  );
+  report.y = top + DIAGRAM_HEIGHT + 8;
+
+  // Legend
+  let x = MARGIN;
+  for (const [label, color] of Object.entries(LOAD_COLORS)) {
+    doc.rect(x, report.y + 2, 12, 5, { fill: color });
+    const text = `${label} centre of mass and weight`;
+    doc.text(text, x + 16, report.y + 8, { size: 8 });
+    x += 16 + doc.textWidth(text, 8) + 14;
+  }
+  report.y += 14;
+  report.paragraph("Side view at the entered pose. Weight arrows are to scale with each other.", { size: 8, color: MUTED });
+  report.y += 8;
+}
+
+function ratingCell(check: RatingCheck | null, format: (value: number) => string): CellValue {
+  if (!check) return { text: "-", color: MUTED };
+  return {
+    text: `${format(check.required)} / ${format(check.rating)} (${(check.utilisation * 100).toFixed(0)}% used)`,
+    color: STATUS_COLORS[check.status],
+  };
+}
+
+function writeResults(report: ReportWriter, values: InputValues, results: MotorResult[], units: UnitSettings) {
+  const T = unitLabel(units, "torque");
+  const P = unitLabel(units, "power");
+  const torque = (value: number) => formatQuantity(units, "torque", value);
+  const power = (value: number) => formatQuantity(units, "power", value);
+
+  report.heading("Results");
+  report.table(
+    [
+      "Motor",
+      `Torque Static (${T})`,
+      `Torque Dynamic (${T})`,
+      `Torque Total (${T})`,
+      `Torque SF (${T})`,
+      `Torque Before (${T})`,
+      `Torque Before SF (${T})`,
+      `Gear Stage Ratings (${T})`,
+      `Power (${P})`,
+      `Power SF (${P})`,
+      `Peak Power (${P})`,
+    ],
+    results.map((result, j) => [
+      String(j + 1),
+      torque(result.T_static),
+      torque(result.T_dynamic),
+      torque(result.T_total),
+      torque(result.T_sf),
+      torque(result.T_before),
+      torque(result.T_before_sf),
+      result.T_stages.map(torque).join(" / ") || "-",
+      power(result.P),
+      power(result.P_sf),
+      power(result.P_peak),
+    ])
+  );
+
+  report.subheading("Motor Ratings");
+  const joints = checkRatings(values.motors, results);
+  if (joints.every((joint) => joint.status === null)) {
+    report.paragraph("No ratings entered.", { color: MUTED });
+  } else {
+    report.table(
+      ["Motor", `Continuous Torque (${T})`, `Peak Torque (${T})`, "Speed (rpm)", "Status"],
+      joints.map((joint, j) => [
+        String(j + 1),
+        ratingCell(joint.continuous, torque),
+        ratingCell(joint.peak, torque),
+        ratingCell(joint.speed, (value) => value.toFixed(0)),
+        joint.status
+          ? { text: STATUS_LABELS[joint.status], color: STATUS_COLORS[joint.status], font: "bold" }
+          : { text: "Not rated", color: MUTED },
+      ])
+    );
+  }
+
+  report.subheading("Static Torque Breakdown");
+  results.forEach((result, j) => {
+    // Largest contributions first, as in the calculator
+    const terms = [...result.breakdown].sort((a, b) => Math.abs(b.torque) - Math.abs(a.torque));
+    const magnitude = terms.reduce((sum, term) => sum + Math.abs(term.torque), 0);
+    report.ensureSpace(60);
+    report.paragraph(`Motor ${j + 1}: ${torque(result.T_static)} ${T}`, { font: "bold" });
+    report.table(
+      [
+        "Source",
+        `Weight (${unitLabel(units, "force")})`,
+        `Moment Arm (${unitLabel(units, "length")})`,
+        `Torque (${T})`,
+        "Share (%)",
+      ],
+      [
+        ...terms.map((term) => [
+          term.source,
+          formatQuantity(units, "force", term.weight),
+          formatQuantity(units, "length", term.momentArm, 3),
+          torque(term.torque),
+          magnitude > 0 ? ((Math.abs(term.torque) / magnitude) * 100).toFixed(1) : "-",
+        ]),
+        [{ text: "Total", font: "bold" }, "", "", { text: torque(result.T_static), font: "bold" }, ""],
+      ]
+    );
+  });
+}
+
+/**
+ * Builds the PDF design report for a design, with the project details in
+ * `metadata` and values in its units.
+ */
+export function buildDesignReport(values: InputValues, metadata: ProjectMetadata, date = new Date()): Uint8Array<ArrayBuffer> {
+  const { units } = metadata;
+  const name = metadata.name.trim() || "Untitled design";
+  const report = new ReportWriter(`${name} - design report`, `${name} - design report, ${date.toLocaleDateString()}`);
+  const calculation = performCalculations(values);
+
+  writeTitleBlock(report, metadata, name, date);
+  writeSummary(report, values, calculation);
+  writeAssumptions(report, values);
+  writeInputs(report, values, units);
+  writeDiagram(report, values, units);
+  if (!("errors" in calculation)) writeResults(report, values, calculation.results, units);
+  return report.doc.toBytes();
+}
@@ -0,0 +1,59 @@
+import { designError, type DesignIssue } from "./validation";
+
+export interface GearStage {
+  ratio: number;
+  /** Percent of input power delivered at the output. */
+  efficiency: number;
+  /** kg, carried at the motor. */
+  mass: number;
+}
+
+export interface GearTrain {
+  /** Overall reduction, the product of the stage ratios. */
+  ratio: number;
+  /** Overall efficiency as a fraction. */
+  efficiency: number;
+  mass: number;
+}
+
+/** Combines the stages between a motor and its joint, listed from the motor side. */
+export function gearTrain(stages: GearStage[]): GearTrain {
+  return stages.reduce(
+    (train, stage) => ({
+      ratio: train.ratio * stage.ratio,
+      efficiency: train.efficiency * (stage.efficiency / 100),
+      mass: train.mass + stage.mass,
+    }),
+    { ratio: 1, efficiency: 1, mass: 0 }
+  );
+}
+
+/** Every problem with a motor's gear stages. */
+export function validateGearStages(stages: GearStage[], index: number): DesignIssue[] {
+  return stages.flatMap((stage, k) => {
+    const name = `Motor ${index + 1} gear stage ${k + 1}`;
+    const path = `motors.${index}.gearStages.${k}`;
+    const issues: DesignIssue[] = [];
+    if (stage.ratio < 0) issues.push(designError(`${path}.ratio`, "negative", `${name} ratio cannot be negative`));
+    if (!(stage.efficiency > 0 && stage.efficiency <= 100)) {
+      issues.push(
+        designError(`${path}.efficiency`, "out_of_range", `${name} efficiency must be above 0 and at most 100%`)
+      );
+    }
+    if (stage.mass < 0) issues.push(designError(`${path}.mass`, "negative", `${name} mass cannot be negative`));
+    return issues;
+  });
+}
+
+/**
+ * Torque each stage's output has to be rated for when the joint needs
+ * `outputTorque`. Stages nearer the motor see the torque divided by the
+ * reduction and losses of the stages after them.
+ */
+export function stageOutputTorques(stages: GearStage[], outputTorque: number): number[] {
+  return stages.map((_, k) => {
+    const downstream = gearTrain(stages.slice(k + 1));
+    const factor = downstream.ratio * downstream.efficiency;
+    return factor !== 0 ? outputTorque / factor : 0;
+  });
+}
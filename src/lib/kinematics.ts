@@ -0,0 +1,116 @@
+export type Vec3 = [number, number, number];
+export type Mat3 = [Vec3, Vec3, Vec3];
+
+export const JOINT_AXES = ["pitch", "roll", "yaw"] as const;
+
+export type JointAxis = (typeof JOINT_AXES)[number];
+
+// Local rotation axes in the frame of the body a joint is mounted on. The arm
+// extends along +x with +z up, so pitch is chosen about -y to make positive
+// angles raise the arm.
+const LOCAL_AXIS: Record<JointAxis, Vec3> = {
+  pitch: [0, -1, 0],
+  roll: [1, 0, 0],
+  yaw: [0, 0, 1],
+};
+
+const IDENTITY: Mat3 = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [0, 0, 1],
+];
+
+export function add(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+export function sub(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+export function scale(a: Vec3, k: number): Vec3 {
+  return [a[0] * k, a[1] * k, a[2] * k];
+}
+
+export function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+export function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function mulVec(m: Mat3, v: Vec3): Vec3 {
+  return [dot(m[0], v), dot(m[1], v), dot(m[2], v)];
+}
+
+function mulMat(a: Mat3, b: Mat3): Mat3 {
+  const col = (j: number): Vec3 => [b[0][j], b[1][j], b[2][j]];
+  return [0, 1, 2].map((i) => [dot(a[i], col(0)), dot(a[i], col(1)), dot(a[i], col(2))]) as Mat3;
+}
+
+// Rodrigues' rotation formula for a unit axis.
+function rotation(axis: Vec3, angle: number): Mat3 {
+  const [x, y, z] = axis;
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  const t = 1 - c;
+  return [
+    [t * x * x + c, t * x * y - s * z, t * x * z + s * y],
+    [t * x * y + s * z, t * y * y + c, t * y * z - s * x],
+    [t * x * z - s * y, t * y * z + s * x, t * z * z + c],
+  ];
+}
+
+export function degToRad(deg: number): number {
+  return (deg * Math.PI) / 180;
+}
+
+export interface JointFrame {
+  /** World position of the joint pivot. */
+  origin: Vec3;
+  /** World direction of the joint's rotation axis. */
+  axis: Vec3;
+  /** Orientation of the body driven by this joint. */
+  rotation: Mat3;
+  /** Distance of the pivot along the arm, measured from the base. */
+  pivot: number;
+}
+
+export interface ArmPose {
+  frames: JointFrame[];
+  /** World position of a point `s` metres along the arm on the body after joint `body` (-1 is the base). */
+  pointAt: (body: number, s: number) => Vec3;
+  /** World direction in which the body after joint `body` extends along the arm. */
+  directionAt: (body: number) => Vec3;
+}
+
+/**
+ * Places every joint of a serial arm whose pivots sit at the given distances
+ * along the arm. With all angles at zero the arm lies straight along +x.
+ */
+export function forwardKinematics(pivots: number[], axes: JointAxis[], anglesRad: number[]): ArmPose {
+  const frames: JointFrame[] = [];
+  let origin: Vec3 = [0, 0, 0];
+  let orientation = IDENTITY;
+  let previousPivot = 0;
+
+  for (let i = 0; i < pivots.length; i++) {
+    origin = add(origin, mulVec(orientation, [pivots[i] - previousPivot, 0, 0]));
+    const localAxis = LOCAL_AXIS[axes[i]];
+    const axis = mulVec(orientation, localAxis);
+    orientation = mulMat(orientation, rotation(localAxis, anglesRad[i]));
+    frames.push({ origin, axis, rotation: orientation, pivot: pivots[i] });
+    previousPivot = pivots[i];
+  }
+
+  const pointAt = (body: number, s: number): Vec3 => {
+    if (body < 0) return [s, 0, 0];
+    const frame = frames[body];
+    return add(frame.origin, mulVec(frame.rotation, [s - frame.pivot, 0, 0]));
+  };
+
+  const directionAt = (body: number): Vec3 => (body < 0 ? [1, 0, 0] : mulVec(frames[body].rotation, [1, 0, 0]));
+
+  return { frames, pointAt, directionAt };
+}
@@ -0,0 +1,61 @@
+export interface Material {
+  id: string;
+  name: string;
+  /** kg/m³ */
+  density: number;
+  /** Young's modulus in GPa. */
+  youngsModulus: number;
+  /** Yield (or, for composites and plastics, tensile) strength in MPa. */
+  yieldStrength: number;
+}
+
+export const BUILT_IN_MATERIALS: Material[] = [
+  { id: "aluminium-6061", name: "Aluminium 6061-T6", density: 2700, youngsModulus: 68.9, yieldStrength: 276 },
+  { id: "aluminium-7075", name: "Aluminium 7075-T6", density: 2810, youngsModulus: 71.7, yieldStrength: 503 },
+  { id: "steel-1018", name: "Mild steel (1018)", density: 7870, youngsModulus: 205, yieldStrength: 370 },
+  { id: "stainless-304", name: "Stainless steel 304", density: 8000, youngsModulus: 193, yieldStrength: 215 },
+  { id: "titanium-6al4v", name: "Titanium Ti-6Al-4V", density: 4430, youngsModulus: 113.8, yieldStrength: 880 },
+  { id: "carbon-fibre", name: "Carbon fibre (quasi-isotropic)", density: 1600, youngsModulus: 70, yieldStrength: 600 },
+  { id: "pla", name: "PLA", density: 1240, youngsModulus: 3.5, yieldStrength: 60 },
+  { id: "petg", name: "PETG", density: 1270, youngsModulus: 2.1, yieldStrength: 50 },
+  { id: "abs", name: "ABS", density: 1040, youngsModulus: 2.3, yieldStrength: 40 },
+  { id: "nylon-pa12", name: "Nylon PA12", density: 1010, youngsModulus: 1.7, yieldStrength: 48 },
+];
+
+export const DEFAULT_MATERIAL_ID = "aluminium-6061";
+
+/** Looks a material up among the built-ins and the given custom materials. */
+export function findMaterial(id: string, customMaterials: Material[]): Material | undefined {
+  return customMaterials.find((material) => material.id === id) ?? BUILT_IN_MATERIALS.find((material) => material.id === id);
+}
+
+export function createMaterialId() {
+  return `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const STORAGE_KEY = "robotic-arm-calculator:materials";
+
+/** Custom materials saved in this browser; empty outside the browser or if nothing valid is stored. */
+export function loadCustomMaterials(): Material[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored)
+      ? stored.filter(
+          (material): material is Material =>
+            typeof material?.id === "string" &&
+            typeof material.name === "string" &&
+            typeof material.density === "number" &&
+            typeof material.youngsModulus === "number" &&
+            typeof material.yieldStrength === "number"
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomMaterials(materials: Material[]) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(materials));
+}
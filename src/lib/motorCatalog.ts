@@ -0,0 +1,54 @@
+import { z } from "zod";
+import builtInMotors from "./motorCatalog.json";
+
+export const MOTOR_TYPES = ["servo", "stepper", "bldc"] as const;
+
+const catalogMotorSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  type: z.enum(MOTOR_TYPES),
+  /** Continuous torque at the motor shaft (Nm). */
+  ratedTorque: z.number().positive(),
+  /** Short-term torque at the motor shaft (Nm). */
+  peakTorque: z.number().positive(),
+  /** Maximum usable speed (rpm). */
+  speed: z.number().positive(),
+  /** kg */
+  mass: z.number().min(0),
+  /** Body length along the arm (m). */
+  length: z.number().min(0),
+});
+
+export type CatalogMotor = z.infer<typeof catalogMotorSchema>;
+
+export const BUILT_IN_MOTORS: CatalogMotor[] = z.array(catalogMotorSchema).parse(builtInMotors);
+
+/**
+ * Parses a user-supplied catalog: a JSON array of motors in the same shape as
+ * motorCatalog.json. Throws with the offending entry if it does not match.
+ */
+export function parseMotorCatalog(json: string): CatalogMotor[] {
+  const result = z.array(catalogMotorSchema).safeParse(JSON.parse(json));
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid catalog entry at ${issue.path.join(".") || "root"}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+const STORAGE_KEY = "robotic-arm-calculator:motors";
+
+/** Custom catalog motors saved in this browser; empty outside the browser or if nothing valid is stored. */
+export function loadCustomMotors(): CatalogMotor[] {
+  if (typeof window === "undefined") return [];
+  try {
+    return parseMotorCatalog(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomMotors(motors: CatalogMotor[]) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(motors));
+}
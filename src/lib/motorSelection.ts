@@ -0,0 +1,77 @@
+import { performCalculations, type InputData } from "./calculations";
+import { describeIssues } from "./validation";
+import type { CatalogMotor } from "./motorCatalog";
+import { motorRequirement } from "./ratingCheck";
+
+export interface MotorSelection {
+  /** Lightest catalog motor meeting the requirement, or null if none does. */
+  motor: CatalogMotor | null;
+  /** Motor-side continuous torque needed to hold the static load with the safety factor (Nm). */
+  requiredRated: number;
+  /** Motor-side torque needed for the full static plus dynamic load with the safety factor (Nm). */
+  requiredPeak: number;
+  requiredSpeed: number;
+}
+
+export interface SelectionResult {
+  selections: MotorSelection[];
+  /** The input data with every selected motor's mass, body length and ratings applied. */
+  data: InputData;
+  iterations: number;
+  converged: boolean;
+}
+
+/**
+ * Picks the lightest catalog motor for every joint. A motor's mass and length
+ * load the joints below it, so the selection is repeated with the chosen
+ * motors in place until it no longer changes. Because each motor only affects
+ * the joints nearer the base this settles within one pass per joint.
+ */
+export function selectMotors(data: InputData, catalog: CatalogMotor[]): SelectionResult | { error: string } {
+  const byMass = [...catalog].sort((a, b) => a.mass - b.mass);
+  const maxIterations = data.motors.length + 2;
+  let current = data;
+  let previousIds: (string | null)[] = [];
+
+  for (let iteration = 1; ; iteration++) {
+    const calculation = performCalculations(current);
+    if ("errors" in calculation) return { error: describeIssues(calculation.errors) };
+
+    const selections = calculation.results.map((result, j): MotorSelection => {
+      const required = motorRequirement(current.motors[j], result);
+      const motor =
+        byMass.find(
+          (candidate) =>
+            candidate.ratedTorque >= required.rated &&
+            candidate.peakTorque >= required.peak &&
+            candidate.speed >= required.speed
+        ) ?? null;
+      return { motor, requiredRated: required.rated, requiredPeak: required.peak, requiredSpeed: required.speed };
+    });
+
+    const ids = selections.map((selection) => selection.motor?.id ?? null);
+    const converged = ids.every((id, j) => id === previousIds[j]);
+
+    current = {
+      ...current,
+      motors: current.motors.map((motor, j) => {
+        const selected = selections[j].motor;
+        return selected
+          ? {
+              ...motor,
+              mass: selected.mass,
+              bodyLength: selected.length,
+              ratedTorque: selected.ratedTorque,
+              peakTorque: selected.peakTorque,
+              maxSpeed: selected.speed,
+            }
+          : motor;
+      }),
+    };
+
+    if (converged || iteration === maxIterations) {
+      return { selections, data: current, iterations: iteration, converged };
+    }
+    previousIds = ids;
+  }
+}
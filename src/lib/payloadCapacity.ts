@@ -0,0 +1,86 @@
+import { performCalculations, type InputData } from "./calculations";
+import { gearTrain } from "./gearing";
+import { describeIssues } from "./validation";
+
+export interface JointCapacity {
+  /** Holding torque the joint can take: rated torque through the gearbox, divided by the safety factor (Nm). */
+  capacity: number;
+  /** Holding torque with no payload, and its change per kilogram of payload (Nm, Nm/kg). */
+  torqueWithoutPayload: number;
+  torquePerKg: number;
+  /**
+   * Payload range this joint can hold, or null when the motor has no rating.
+   * `max` is Infinity when the payload doesn't load the joint; an empty range
+   * (min > max) means the joint is overloaded by the arm alone.
+   */
+  range: { min: number; max: number } | null;
+}
+
+export interface PayloadCapacity {
+  joints: JointCapacity[];
+  /** Heaviest payload every rated joint can hold (kg); Infinity if none of them is loaded by it. */
+  maxPayload: number;
+  /** Lightest payload that works, above zero only when a joint is counterbalanced by the payload. */
+  minPayload: number;
+  /** Index of the motor that sets `maxPayload`, or null if none does. */
+  limitingJoint: number | null;
+}
+
+/**
+ * Solves for the heaviest payload the installed motors can hold at the entered
+ * pose. Each motor must hold its joint's static torque, with the safety factor,
+ * within its rated continuous torque after the gearbox's reduction and losses.
+ * Holding torque is linear in the payload mass, so two calculations give every
+ * joint's torque at any payload.
+ */
+export function solvePayloadCapacity(data: InputData): PayloadCapacity | { error: string } {
+  if (data.motors.every((motor) => motor.ratedTorque === 0)) {
+    return { error: "Enter the rated torque of at least one motor to find the maximum payload" };
+  }
+  const unloaded = performCalculations({ ...data, m_payload: 0 });
+  if ("errors" in unloaded) return { error: describeIssues(unloaded.errors) };
+  const loaded = performCalculations({ ...data, m_payload: 1 });
+  if ("errors" in loaded) return { error: describeIssues(loaded.errors) };
+
+  const joints = data.motors.map((motor, j): JointCapacity => {
+    const { ratio, efficiency } = gearTrain(motor.gearStages);
+    const capacity = (motor.ratedTorque * ratio * efficiency) / motor.safetyFactor;
+    const torqueWithoutPayload = unloaded.results[j].T_static;
+    const torquePerKg = loaded.results[j].T_static - torqueWithoutPayload;
+    if (motor.ratedTorque === 0) return { capacity, torqueWithoutPayload, torquePerKg, range: null };
+
+    // |T0 + k·m| <= capacity
+    let range: JointCapacity["range"];
+    if (Math.abs(torquePerKg) < 1e-12) {
+      range = Math.abs(torqueWithoutPayload) <= capacity ? { min: 0, max: Infinity } : { min: Infinity, max: 0 };
+    } else {
+      const a = (capacity - torqueWithoutPayload) / torquePerKg;
+      const b = (-capacity - torqueWithoutPayload) / torquePerKg;
+      range = { min: Math.max(0, Math.min(a, b)), max: Math.max(a, b) };
+    }
+    return { capacity, torqueWithoutPayload, torquePerKg, range };
+  });
+
+  let maxPayload = Infinity;
+  let minPayload = 0;
+  let limitingJoint: number | null = null;
+  joints.forEach((joint, j) => {
+    if (!joint.range) return;
+    if (joint.range.max < maxPayload) {
+      maxPayload = joint.range.max;
+      limitingJoint = j;
+    }
+    minPayload = Math.max(minPayload, joint.range.min);
+  });
+
+  if (minPayload > maxPayload) {
+    const overloaded = joints.findIndex((joint) => joint.range && joint.range.min > joint.range.max);
+    return {
+      error:
+        overloaded >= 0
+          ? `Motor ${overloaded + 1} cannot hold the arm at this pose with any payload`
+          : "No payload lets every rated motor hold the arm at this pose",
+    };
+  }
+  return { joints, maxPayload, minPayload, limitingJoint };
+}
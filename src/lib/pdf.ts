@@ -0,0 +1,259 @@
+/*
+ * A small PDF writer: A4 pages with text in the standard Helvetica fonts,
+ * lines, rectangles, polygons and circles. Nothing is embedded, so files stay
+ * small and plain ASCII, but text is limited to the Windows-1252 characters
+ * the standard fonts cover; anything else prints as "?".
+ *
+ * Positions are in points (1/72 in) from the top-left corner of the page, with
+ * y pointing down as in SVG. Text is placed by its baseline.
+ */
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export type Font = "regular" | "bold";
+
+export interface TextOptions {
+  /** Points; 10 by default. */
+  size?: number;
+  font?: Font;
+  /** "#rrggbb"; black by default. */
+  color?: string;
+  /** Which end of the text `x` is. */
+  align?: "left" | "center" | "right";
+}
+
+export interface ShapeOptions {
+  /** Outline colour, "#rrggbb"; no outline when left out. */
+  stroke?: string;
+  /** Fill colour, "#rrggbb"; no fill when left out. */
+  fill?: string;
+  lineWidth?: number;
+  /** Dash and gap lengths of the outline. */
+  dash?: number[];
+  /** Ends of open outlines; cut flat at the end point by default. */
+  lineCap?: "butt" | "round";
+}
+
+// Advance widths of Helvetica and Helvetica-Bold for characters 32 to 126, in 1/1000 of the font size
+const WIDTHS: Record<Font, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+    556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+    722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+    556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+    260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+    556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+    722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+    556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+    280, 389, 584,
+  ],
+};
+
+// Widths of the other characters the reports use; the rest are taken as a digit's width
+const OTHER_WIDTHS: Record<number, number> = {
+  0x85: 1000, // …
+  0x96: 556, // –
+  0x97: 1000, // —
+  0xb0: 400, // °
+  0xb1: 584, // ±
+  0xb2: 333, // ²
+  0xb3: 333, // ³
+  0xb7: 278, // ·
+  0xd7: 584, // ×
+};
+
+// Windows-1252 codes of the characters outside Latin-1 that it has
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+  "−": 0x2d, // Minus sign, printed as a hyphen
+};
+
+const winAnsiCode = (char: string) => {
+  const code = char.codePointAt(0)!;
+  if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return code;
+  return WIN_ANSI[char] ?? 0x3f;
+};
+
+const charWidth = (code: number, font: Font) =>
+  code >= 32 && code <= 126 ? WIDTHS[font][code - 32] : (OTHER_WIDTHS[code] ?? 556);
+
+// A PDF string literal, with everything outside printable ASCII written as octal escapes
+function pdfString(text: string) {
+  let literal = "";
+  for (const char of text) {
+    const code = winAnsiCode(char);
+    if (char === "(" || char === ")" || char === "\\") literal += `\\${char}`;
+    else if (code < 32 || code > 126) literal += `\\${code.toString(8).padStart(3, "0")}`;
+    else literal += String.fromCharCode(code);
+  }
+  return `(${literal})`;
+}
+
+const number = (value: number) => String(Math.round(value * 100) / 100);
+
+function rgb(color: string) {
+  const hex = /^#([0-9a-f]{6})$/i.exec(color)?.[1] ?? "000000";
+  return [0, 2, 4].map((i) => number(parseInt(hex.slice(i, i + 2), 16) / 255)).join(" ");
+}
+
+// Control point distance of the four Bézier curves that approximate a circle
+const KAPPA = 0.5523;
+
+const FONT_NAMES: Record<Font, string> = { regular: "F1", bold: "F2" };
+
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor(private title = "") {}
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  /** Starts a new page; everything drawn goes on the latest page. */
+  addPage() {
+    this.pages.push([]);
+  }
+
+  private draw(operations: string) {
+    if (this.pages.length === 0) this.addPage();
+    this.pages[this.pages.length - 1].push(operations);
+  }
+
+  /** Width of a line of text in points. */
+  textWidth(text: string, size = 10, font: Font = "regular") {
+    let width = 0;
+    for (const char of text) width += charWidth(winAnsiCode(char), font);
+    return (width * size) / 1000;
+  }
+
+  /** Splits text into lines no wider than `width`, breaking between words where it can. */
+  wrap(text: string, width: number, size = 10, font: Font = "regular"): string[] {
+    // With a little tolerance so text measured for a width fits it despite rounding
+    const fits = (line: string) => this.textWidth(line, size, font) <= width + 1e-6;
+    const lines: string[] = [];
+    for (const paragraph of text.split("\n")) {
+      let line = "";
+      for (const word of paragraph.split(/ +/)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (fits(candidate) || !line) {
+          line = candidate;
+        } else {
+          lines.push(line);
+          line = word;
+        }
+        // Words longer than a whole line are broken wherever they reach the edge
+        while (!fits(line) && line.length > 1) {
+          let fit = line.length - 1;
+          while (fit > 1 && !fits(line.slice(0, fit))) fit--;
+          lines.push(line.slice(0, fit));
+          line = line.slice(fit);
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  text(text: string, x: number, y: number, { size = 10, font = "regular", color, align = "left" }: TextOptions = {}) {
+    const width = this.textWidth(text, size, font);
+    const left = align === "left" ? x : align === "center" ? x - width / 2 : x - width;
+    this.draw(
+      `BT /${FONT_NAMES[font]} ${number(size)} Tf ${color ? `${rgb(color)} rg ` : ""}` +
+        `${number(left)} ${number(PAGE_HEIGHT - y)} Td ${pdfString(text)} Tj ET`
+    );
+  }
+
+  private shape(path: string, { stroke, fill, lineWidth = 1, dash, lineCap }: ShapeOptions) {
+    if (!stroke && !fill) return;
+    const paint = stroke && fill ? "B" : fill ? "f" : "S";
+    this.draw(
+      "q " +
+        (stroke ? `${rgb(stroke)} RG ${number(lineWidth)} w ` : "") +
+        (dash ? `[${dash.map(number).join(" ")}] 0 d ` : "") +
+        (lineCap === "round" ? "1 J " : "") +
+        (fill ? `${rgb(fill)} rg ` : "") +
+        `${path} ${paint} Q`
+    );
+  }
+
+  private point(x: number, y: number) {
+    return `${number(x)} ${number(PAGE_HEIGHT - y)}`;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: ShapeOptions) {
+    this.shape(`${this.point(x1, y1)} m ${this.point(x2, y2)} l`, options);
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: ShapeOptions) {
+    this.shape(`${number(x)} ${number(PAGE_HEIGHT - y - height)} ${number(width)} ${number(height)} re`, options);
+  }
+
+  polygon(points: [number, number][], options: ShapeOptions) {
+    if (points.length === 0) return;
+    const [[x0, y0], ...rest] = points;
+    this.shape(`${this.point(x0, y0)} m ${rest.map(([x, y]) => `${this.point(x, y)} l`).join(" ")} h`, options);
+  }
+
+  circle(cx: number, cy: number, r: number, options: ShapeOptions) {
+    const k = KAPPA * r;
+    const p = (x: number, y: number) => this.point(cx + x, cy + y);
+    this.shape(
+      `${p(r, 0)} m ${p(r, k)} ${p(k, r)} ${p(0, r)} c ${p(-k, r)} ${p(-r, k)} ${p(-r, 0)} c ` +
+        `${p(-r, -k)} ${p(-k, -r)} ${p(0, -r)} c ${p(k, -r)} ${p(r, -k)} ${p(r, 0)} c h`,
+      options
+    );
+  }
+
+  /** The finished file. */
+  toBytes(): Uint8Array<ArrayBuffer> {
+    if (this.pages.length === 0) this.addPage();
+
+    // Objects 1-4 are the catalog, page tree and fonts; each page then has a page object and its contents
+    const objects: string[] = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      `<< /Type /Pages /Kids [${this.pages.map((_, i) => `${5 + 2 * i} 0 R`).join(" ")}] /Count ${this.pages.length} >>`,
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    ];
+    for (const [i, operations] of this.pages.entries()) {
+      const contents = operations.join("\n");
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + 2 * i} 0 R >>`,
+        `<< /Length ${contents.length} >>\nstream\n${contents}\nendstream`
+      );
+    }
+    objects.push(`<< /Title ${pdfString(this.title)} /Producer (Robotic Arm Calculator) >>`);
+
+    // Everything is ASCII, so string lengths are byte offsets
+    let file = "%PDF-1.4\n";
+    const offsets = objects.map((object, i) => {
+      const offset = file.length;
+      file += `${i + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+    const xref = file.length;
+    file +=
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+      offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("") +
+      `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n` +
+      `startxref\n${xref}\n%%EOF\n`;
+    return new TextEncoder().encode(file);
+  }
+}
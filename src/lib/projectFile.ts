@@ -0,0 +1,189 @@
+import { z } from "zod";
+import { BUILT_IN_MATERIALS, createMaterialId, type Material } from "./materials";
+import { emptyLink, emptyMotor, inputSchema, type InputValues } from "./schema";
+import { DEFAULT_UNIT_SETTINGS, QUANTITIES, UNIT_SYSTEMS, type UnitSystem } from "./units";
+
+/*
+ * Project files (*.arm.json) hold one design with its metadata:
+ *
+ *   {
+ *     "format": "robotic-arm-calculator",
+ *     "version": 3,
+ *     "metadata": { "name", "author", "notes", "units": { "system", "overrides" }, "savedAt" },
+ *     "design": { "m_payload", "customMaterials", "links", "motors" }
+ *   }
+ *
+ * The design is the calculator's input data in SI units, as the form stores
+ * it; `units` only records how it was being viewed. Whenever the input data
+ * changes shape, bump PROJECT_VERSION and add a migration from the previous
+ * version so older files still open.
+ */
+
+export const PROJECT_FORMAT = "robotic-arm-calculator";
+export const PROJECT_VERSION = 3;
+export const PROJECT_FILE_EXTENSION = ".arm.json";
+
+const unitSettingsSchema = z.object({
+  system: z.enum(Object.keys(UNIT_SYSTEMS) as [UnitSystem, ...UnitSystem[]]),
+  overrides: z.partialRecord(z.enum(QUANTITIES), z.string()),
+});
+
+const metadataSchema = z.object({
+  name: z.string(),
+  author: z.string(),
+  notes: z.string(),
+  units: unitSettingsSchema,
+  /** ISO 8601 time the file was written. */
+  savedAt: z.string(),
+});
+
+const projectSchema = z.object({
+  format: z.literal(PROJECT_FORMAT),
+  version: z.literal(PROJECT_VERSION),
+  metadata: metadataSchema,
+  design: inputSchema,
+});
+
+export type ProjectMetadata = z.infer<typeof metadataSchema>;
+export type ProjectFile = z.infer<typeof projectSchema>;
+
+/** A design to put in the form, with the metadata to show alongside it when it has its own. */
+export interface DesignSnapshot {
+  design: InputValues;
+  metadata?: ProjectMetadata;
+}
+
+export const EMPTY_METADATA: ProjectMetadata = {
+  name: "",
+  author: "",
+  notes: "",
+  units: DEFAULT_UNIT_SETTINGS,
+  savedAt: "",
+};
+
+/*
+ * Version 0 is the bare input data the calculator started with: one density
+ * for every link, round links given by length and radius, and a single gear
+ * ratio per motor.
+ */
+function fromVersion0(legacy: any) {
+  const density = Number(legacy.density);
+  const builtIn = BUILT_IN_MATERIALS.find((material) => material.density === density);
+  const customMaterials: Material[] = builtIn
+    ? []
+    : [{ id: createMaterialId(), name: `Imported (${density} kg/m³)`, density, youngsModulus: 0, yieldStrength: 0 }];
+  const material = builtIn?.id ?? customMaterials[0].id;
+
+  return {
+    format: PROJECT_FORMAT,
+    version: 1,
+    metadata: EMPTY_METADATA,
+    design: {
+      m_payload: legacy.m_payload,
+      customMaterials,
+      links: (legacy.links ?? []).map((link: any) => ({
+        ...emptyLink(),
+        material,
+        length: link.length,
+        radius: link.radius,
+      })),
+      motors: (legacy.motors ?? []).map((motor: any) => ({
+        ...emptyMotor(),
+        mass: motor.mass,
+        bodyLength: motor.bodyLength,
+        pivotPosition: motor.pivotPosition,
+        rpm: motor.rpm,
+        gearStages: [{ ratio: motor.gearRatio, efficiency: 100, mass: 0 }],
+        safetyFactor: motor.safetyFactor,
+      })),
+    },
+  };
+}
+
+// Version 1 had no rated torque for the installed motors
+function fromVersion1(file: any) {
+  return {
+    ...file,
+    version: 2,
+    design: {
+      ...file.design,
+      motors: Array.isArray(file.design?.motors)
+        ? file.design.motors.map((motor: any) => ({ ratedTorque: 0, ...motor }))
+        : file.design?.motors,
+    },
+  };
+}
+
+// Version 2 had only the rated continuous torque of the installed motors
+function fromVersion2(file: any) {
+  return {
+    ...file,
+    version: 3,
+    design: {
+      ...file.design,
+      motors: Array.isArray(file.design?.motors)
+        ? file.design.motors.map((motor: any) => ({ peakTorque: 0, maxSpeed: 0, ...motor }))
+        : file.design?.motors,
+    },
+  };
+}
+
+// MIGRATIONS[n] turns a version n file into a version n + 1 file
+const MIGRATIONS: Record<number, (file: any) => any> = {
+  0: fromVersion0,
+  1: fromVersion1,
+  2: fromVersion2,
+};
+
+/** Only the custom materials the links use are saved, not the whole browser library. */
+export function createProjectFile(design: InputValues, metadata: ProjectMetadata): ProjectFile {
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    metadata: { ...metadata, savedAt: new Date().toISOString() },
+    design: {
+      ...design,
+      customMaterials: design.customMaterials.filter((material) =>
+        design.links.some((link) => link.material === material.id)
+      ),
+    },
+  };
+}
+
+export function serializeProjectFile(project: ProjectFile): string {
+  return JSON.stringify(project, null, 2);
+}
+
+/**
+ * Reads a project file, upgrading files saved by older versions. Throws with
+ * the offending field if it is not a valid project.
+ */
+export function parseProjectFile(json: string): ProjectFile {
+  let file: any;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (typeof file !== "object" || file === null) throw new Error("The file is not a project file");
+
+  // Files without a format marker are the original bare input data
+  let version = file.format === undefined && "links" in file ? 0 : file.version;
+  if (file.format !== undefined && file.format !== PROJECT_FORMAT) throw new Error("The file is not a project file");
+  if (!Number.isInteger(version) || version < 0) throw new Error("The project file has no version");
+  if (version > PROJECT_VERSION) {
+    throw new Error(`The project was saved in format version ${version}; this calculator reads up to ${PROJECT_VERSION}`);
+  }
+  while (version < PROJECT_VERSION) {
+    file = MIGRATIONS[version](file);
+    version++;
+  }
+
+  const result = projectSchema.safeParse(file);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid project file at ${issue.path.join(".") || "root"}: ${issue.message}`);
+  }
+  return result.data;
+}
+
@@ -0,0 +1,108 @@
+import type { Motor, MotorResult } from "./calculations";
+import { gearTrain } from "./gearing";
+
+/** What a motor has to deliver at its shaft for its joint. */
+export interface MotorRequirement {
+  /** Continuous torque to hold the static load with the safety factor (Nm). */
+  rated: number;
+  /** Torque for the full static plus dynamic load with the safety factor (Nm). */
+  peak: number;
+  /** rpm */
+  speed: number;
+}
+
+export function motorRequirement(motor: Motor, result: MotorResult): MotorRequirement {
+  const { ratio, efficiency } = gearTrain(motor.gearStages);
+  return {
+    rated: ratio !== 0 ? (motor.safetyFactor * Math.abs(result.T_static)) / (ratio * efficiency) : 0,
+    peak: Math.abs(result.T_before_sf),
+    speed: motor.rpm,
+  };
+}
+
+export type RatingStatus = "pass" | "warn" | "fail";
+
+/** Above this share of a rating a joint passes with little to spare and is flagged. */
+export const WARN_UTILISATION = 0.8;
+
+export interface RatingCheck {
+  required: number;
+  rating: number;
+  /** required / rating */
+  utilisation: number;
+  /** rating - required; negative when the rating is exceeded. */
+  margin: number;
+  status: RatingStatus;
+}
+
+export interface JointRatings {
+  /** Null where the motor's rating was left at 0. */
+  continuous: RatingCheck | null;
+  peak: RatingCheck | null;
+  speed: RatingCheck | null;
+  /** The worst of the checks, or null if the motor has no ratings. */
+  status: RatingStatus | null;
+}
+
+const STATUS_ORDER: RatingStatus[] = ["pass", "warn", "fail"];
+
+/** The worst of several statuses, ignoring missing ones. */
+export function worstStatus(statuses: (RatingStatus | null)[]): RatingStatus | null {
+  const present = statuses.filter((status): status is RatingStatus => status !== null);
+  return present.length === 0 ? null : STATUS_ORDER[Math.max(...present.map((status) => STATUS_ORDER.indexOf(status)))];
+}
+
+function check(required: number, rating: number): RatingCheck | null {
+  if (rating === 0) return null;
+  const utilisation = required / rating;
+  const status = utilisation > 1 ? "fail" : utilisation > WARN_UTILISATION ? "warn" : "pass";
+  return { required, rating, utilisation, margin: rating - required, status };
+}
+
+/** Compares every motor's requirement with the ratings entered for it, in motor order. */
+export function checkRatings(motors: Motor[], results: MotorResult[]): JointRatings[] {
+  return results.map((result, j) => {
+    const motor = motors[j];
+    const required = motorRequirement(motor, result);
+    const continuous = check(required.rated, motor.ratedTorque);
+    const peak = check(required.peak, motor.peakTorque);
+    const speed = check(required.speed, motor.maxSpeed);
+    return {
+      continuous,
+      peak,
+      speed,
+      status: worstStatus([continuous?.status ?? null, peak?.status ?? null, speed?.status ?? null]),
+    };
+  });
+}
+
+export interface RatingSummary {
+  status: RatingStatus;
+  title: string;
+  detail: string;
+}
+
+// "Motor 2 is" or "Motors 2, 4 are"
+const motorsAre = (indices: number[]) =>
+  `Motor${indices.length > 1 ? "s" : ""} ${indices.map((index) => index + 1).join(", ")} ${indices.length > 1 ? "are" : "is"}`;
+
+/** The overall outcome of the rating checks in words, or null when no motor has a rating. */
+export function summarizeRatings(joints: JointRatings[]): RatingSummary | null {
+  const status = worstStatus(joints.map((joint) => joint.status));
+  if (status === null) return null;
+
+  const withStatus = (wanted: RatingStatus) =>
+    joints.flatMap((joint, index) => (joint.status === wanted ? [index] : []));
+  const failing = withStatus("fail");
+  const warning = withStatus("warn");
+  const title =
+    status === "pass"
+      ? "Every rated motor is within its ratings"
+      : status === "warn"
+        ? `${motorsAre(warning)} using over ${Math.round(WARN_UTILISATION * 100)}% of a rating`
+        : `${motorsAre(failing)} over a rating`;
+  const detail =
+    "Required values include the safety factors. Ratings left at 0 are not checked." +
+    (status === "fail" && warning.length > 0 ? ` ${motorsAre(warning)} also close to a rating.` : "");
+  return { status, title, detail };
+}
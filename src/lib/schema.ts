@@ -0,0 +1,117 @@
+import { z } from "zod";
+import { JOINT_AXES } from "./kinematics";
+import { DEFAULT_MATERIAL_ID } from "./materials";
+import { CROSS_SECTIONS, EXTRUSION_PROFILE_NAMES, type ExtrusionProfile } from "./sections";
+
+export const MAX_JOINTS = 12;
+
+/**
+ * Everything needed to describe an arm, with the form's messages. Shared by
+ * the form and every other way a design comes in so they all accept the same data.
+ */
+export const inputSchema = z
+  .object({
+    m_payload: z.number().min(0, "Payload mass cannot be negative"),
+    customMaterials: z.array(
+      z.object({
+        id: z.string(),
+        name: z.string().min(1, "Name is required"),
+        density: z.number().positive("Density must be positive"),
+        youngsModulus: z.number().min(0, "Young's modulus cannot be negative"),
+        yieldStrength: z.number().min(0, "Yield strength cannot be negative"),
+      })
+    ),
+    links: z
+      .array(
+        z.object({
+          length: z.number().min(0, "Length must be positive"),
+          material: z.string().min(1, "Material is required"),
+          crossSection: z.enum(CROSS_SECTIONS),
+          radius: z.number().min(0, "Radius must be positive"),
+          wallThickness: z.number().min(0, "Wall thickness cannot be negative"),
+          width: z.number().min(0, "Width must be positive"),
+          height: z.number().min(0, "Height must be positive"),
+          infill: z.number().min(0, "Infill cannot be negative").max(100, "Infill cannot exceed 100%"),
+          profile: z.enum(EXTRUSION_PROFILE_NAMES as [ExtrusionProfile, ...ExtrusionProfile[]]),
+          mass: z.number().min(0, "Mass cannot be negative"),
+          centerOfMass: z.number().min(0, "Centre of mass cannot be negative"),
+        })
+      )
+      .min(1, "At least 1 link is required")
+      .max(MAX_JOINTS, `At most ${MAX_JOINTS} links are supported`),
+    motors: z
+      .array(
+        z.object({
+          mass: z.number().min(0, "Mass cannot be negative"),
+          bodyLength: z.number().min(0, "Body length cannot be negative"),
+          pivotPosition: z.number().min(0, "Pivot position cannot be negative"),
+          rpm: z.number().min(0, "RPM cannot be negative"),
+          gearStages: z.array(
+            z.object({
+              ratio: z.number().min(0, "Gear ratio cannot be negative"),
+              efficiency: z
+                .number()
+                .gt(0, "Efficiency must be above 0%")
+                .max(100, "Efficiency cannot exceed 100%"),
+              mass: z.number().min(0, "Mass cannot be negative"),
+            })
+          ),
+          ratedTorque: z.number().min(0, "Rated torque cannot be negative"),
+          peakTorque: z.number().min(0, "Peak torque cannot be negative"),
+          maxSpeed: z.number().min(0, "Maximum speed cannot be negative"),
+          safetyFactor: z.number().min(1, "Safety factor must be at least 1"),
+          angle: z.number(),
+          axis: z.enum(JOINT_AXES),
+          minAngle: z.number(),
+          maxAngle: z.number(),
+          speed: z.number().min(0, "Speed cannot be negative"),
+          acceleration: z.number().min(0, "Acceleration cannot be negative"),
+        })
+        .refine((motor) => motor.minAngle <= motor.maxAngle, {
+          message: "Minimum angle cannot exceed the maximum angle",
+          path: ["maxAngle"],
+        })
+      )
+      .min(1, "At least 1 motor is required")
+      .max(MAX_JOINTS, `At most ${MAX_JOINTS} motors are supported`),
+  })
+  .refine((data) => data.links.length === data.motors.length, {
+    message: "Each link requires exactly one motor",
+    path: ["motors"],
+  });
+
+export type InputValues = z.infer<typeof inputSchema>;
+
+export const emptyLink = () => ({
+  length: 0,
+  material: DEFAULT_MATERIAL_ID,
+  crossSection: "solid" as const,
+  radius: 0,
+  wallThickness: 0,
+  width: 0,
+  height: 0,
+  infill: 20,
+  profile: "2020" as const,
+  mass: 0,
+  centerOfMass: 0,
+});
+
+export const emptyGearStage = () => ({ ratio: 1, efficiency: 100, mass: 0 });
+
+export const emptyMotor = () => ({
+  mass: 0,
+  bodyLength: 0,
+  pivotPosition: 0,
+  rpm: 0,
+  gearStages: [emptyGearStage()],
+  ratedTorque: 0,
+  peakTorque: 0,
+  maxSpeed: 0,
+  safetyFactor: 1,
+  angle: 0,
+  axis: "pitch" as const,
+  minAngle: -180,
+  maxAngle: 180,
+  speed: 0,
+  acceleration: 0,
+});
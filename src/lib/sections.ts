@@ -0,0 +1,163 @@
+import type { Link } from "./calculations";
+import { designError, type DesignIssue } from "./validation";
+
+export const CROSS_SECTIONS = ["solid", "tube", "box", "extrusion", "printed", "mass"] as const;
+
+export type CrossSection = (typeof CROSS_SECTIONS)[number];
+
+export const CROSS_SECTION_LABELS: Record<CrossSection, string> = {
+  solid: "Solid round bar",
+  tube: "Hollow round tube",
+  box: "Rectangular box section",
+  extrusion: "Aluminium T-slot extrusion",
+  printed: "3D-printed (shell + infill)",
+  mass: "Measured mass",
+};
+
+/**
+ * Common T-slot profiles. Areas are typical manufacturer figures for the
+ * metal cross-section; the outer size is used for the radius of gyration.
+ */
+export const EXTRUSION_PROFILES = {
+  "2020": { width: 0.02, height: 0.02, area: 1.6e-4 },
+  "2040": { width: 0.02, height: 0.04, area: 3.0e-4 },
+  "3030": { width: 0.03, height: 0.03, area: 3.4e-4 },
+  "4040": { width: 0.04, height: 0.04, area: 5.6e-4 },
+  "4080": { width: 0.04, height: 0.08, area: 1.04e-3 },
+} as const;
+
+export type ExtrusionProfile = keyof typeof EXTRUSION_PROFILES;
+
+export const EXTRUSION_PROFILE_NAMES = Object.keys(EXTRUSION_PROFILES) as ExtrusionProfile[];
+
+export interface LinkMassProperties {
+  mass: number;
+  /** Distance of the centre of mass from the start of the link (m). */
+  centerOfMass: number;
+  /** Moments of inertia about the centre of mass, along and across the link (kg·m²). */
+  I_axial: number;
+  I_transverse: number;
+}
+
+// Area and second moments of area of a cross-section. `polar` is about the
+// link's own axis and `bending` about the transverse axis with the larger
+// value, so the inertia is never underestimated.
+interface SectionArea {
+  area: number;
+  polar: number;
+  bending: number;
+}
+
+function circle(radius: number): SectionArea {
+  const area = Math.PI * radius ** 2;
+  return { area, polar: (area * radius ** 2) / 2, bending: (area * radius ** 2) / 4 };
+}
+
+function rectangle(width: number, height: number): SectionArea {
+  const area = width * height;
+  const Ix = (width * height ** 3) / 12;
+  const Iy = (height * width ** 3) / 12;
+  return { area, polar: Ix + Iy, bending: Math.max(Ix, Iy) };
+}
+
+function hollow(outer: SectionArea, inner: SectionArea, innerFill = 0): SectionArea {
+  const keep = 1 - innerFill;
+  return {
+    area: outer.area - keep * inner.area,
+    polar: outer.polar - keep * inner.polar,
+    bending: outer.bending - keep * inner.bending,
+  };
+}
+
+function section(link: Link): SectionArea {
+  const { radius, wallThickness: t, width, height } = link;
+  switch (link.crossSection) {
+    case "solid":
+      return circle(radius);
+    case "tube":
+      return hollow(circle(radius), circle(radius - t));
+    case "box":
+      return t > 0 ? hollow(rectangle(width, height), rectangle(width - 2 * t, height - 2 * t)) : rectangle(width, height);
+    case "extrusion": {
+      const profile = EXTRUSION_PROFILES[link.profile];
+      const outer = rectangle(profile.width, profile.height);
+      const k = profile.area / outer.area;
+      return { area: profile.area, polar: outer.polar * k, bending: outer.bending * k };
+    }
+    case "printed":
+      return hollow(rectangle(width, height), rectangle(width - 2 * t, height - 2 * t), link.infill / 100);
+    case "mass":
+      return { area: 0, polar: 0, bending: 0 };
+  }
+}
+
+/** Every problem with a link's cross-section inputs. */
+export function validateLinkSection(link: Link, index: number): DesignIssue[] {
+  const name = `Link ${index + 1}`;
+  const path = (field: keyof Link) => `links.${index}.${field}`;
+  const { radius, wallThickness: t, width, height } = link;
+  const issues: DesignIssue[] = [];
+
+  if (!CROSS_SECTIONS.includes(link.crossSection)) {
+    return [designError(path("crossSection"), "unknown_option", `${name} has an unknown cross-section type`)];
+  }
+  if (t < 0) issues.push(designError(path("wallThickness"), "negative", `${name} wall thickness cannot be negative`));
+
+  switch (link.crossSection) {
+    case "solid":
+    case "tube":
+      if (radius <= 0) issues.push(designError(path("radius"), "not_positive", `${name} radius must be positive`));
+      if (link.crossSection === "tube" && (t === 0 || t > radius)) {
+        issues.push(
+          designError(path("wallThickness"), "out_of_range", `${name} wall thickness must be between 0 and the radius`)
+        );
+      }
+      break;
+    case "box":
+    case "printed":
+      if (width <= 0) issues.push(designError(path("width"), "not_positive", `${name} width must be positive`));
+      if (height <= 0) issues.push(designError(path("height"), "not_positive", `${name} height must be positive`));
+      if (width > 0 && height > 0 && 2 * t > Math.min(width, height)) {
+        issues.push(
+          designError(path("wallThickness"), "out_of_range", `${name} walls cannot be thicker than half the section`)
+        );
+      }
+      if (link.crossSection === "printed" && (link.infill < 0 || link.infill > 100)) {
+        issues.push(designError(path("infill"), "out_of_range", `${name} infill must be between 0 and 100%`));
+      }
+      break;
+    case "extrusion":
+      if (!(link.profile in EXTRUSION_PROFILES)) {
+        issues.push(designError(path("profile"), "unknown_option", `${name} has an unknown extrusion profile`));
+      }
+      break;
+    case "mass":
+      if (link.mass < 0) issues.push(designError(path("mass"), "negative", `${name} mass cannot be negative`));
+      if (link.centerOfMass < 0 || link.centerOfMass > link.length) {
+        issues.push(
+          designError(path("centerOfMass"), "out_of_range", `${name} centre of mass must lie within the link`)
+        );
+      }
+      break;
+  }
+  return issues;
+}
+
+/** Mass, centre of mass and inertia of a link made of a material with the given density (kg/m³). */
+export function linkMassProperties(link: Link, density: number): LinkMassProperties {
+  const L = link.length;
+
+  if (link.crossSection === "mass") {
+    return { mass: link.mass, centerOfMass: link.centerOfMass, I_axial: 0, I_transverse: (link.mass * L ** 2) / 12 };
+  }
+
+  const { area, polar, bending } = section(link);
+  const mass = density * area * L;
+  const k2 = area > 0 ? bending / area : 0;
+  return {
+    mass,
+    centerOfMass: L / 2,
+    I_axial: area > 0 ? (mass * polar) / area : 0,
+    I_transverse: mass * (L ** 2 / 12 + k2),
+  };
+}
@@ -0,0 +1,167 @@
+import { performCalculations, type InputData, type MotorResult } from "./calculations";
+import { findMaterial } from "./materials";
+import type { Quantity } from "./units";
+import { describeIssues } from "./validation";
+
+/** An input that can be varied, read from and written to a copy of the input data. */
+export interface SweepParameter {
+  id: string;
+  label: string;
+  quantity?: Quantity;
+  get: (data: InputData) => number;
+  set: (data: InputData, value: number) => InputData;
+}
+
+const withLink = (data: InputData, k: number, change: Partial<InputData["links"][number]>): InputData => ({
+  ...data,
+  links: data.links.map((link, i) => (i === k ? { ...link, ...change } : link)),
+});
+
+const withMotor = (data: InputData, k: number, change: Partial<InputData["motors"][number]>): InputData => ({
+  ...data,
+  motors: data.motors.map((motor, i) => (i === k ? { ...motor, ...change } : motor)),
+});
+
+// Pivots are measured from the base, so the joints beyond a link move with its far end
+const withLinkLength = (data: InputData, k: number, length: number): InputData => {
+  const delta = length - data.links[k].length;
+  return {
+    ...withLink(data, k, { length }),
+    motors: data.motors.map((motor, i) => (i > k ? { ...motor, pivotPosition: motor.pivotPosition + delta } : motor)),
+  };
+};
+
+/**
+ * The inputs of a design worth sweeping. A material's density is varied by
+ * adding a custom material with the same id, which takes precedence over a
+ * built-in one, so every link made of it changes together.
+ */
+export function sweepParameters(data: InputData): SweepParameter[] {
+  const parameters: SweepParameter[] = [
+    {
+      id: "payload",
+      label: "Payload mass",
+      quantity: "mass",
+      get: (d) => d.m_payload,
+      set: (d, value) => ({ ...d, m_payload: value }),
+    },
+  ];
+
+  data.links.forEach((link, k) => {
+    parameters.push({
+      id: `link-${k}-length`,
+      label: `Link ${k + 1} length`,
+      quantity: "length",
+      get: (d) => d.links[k].length,
+      set: (d, value) => withLinkLength(d, k, value),
+    });
+    if (link.crossSection === "mass") {
+      parameters.push({
+        id: `link-${k}-mass`,
+        label: `Link ${k + 1} mass`,
+        quantity: "mass",
+        get: (d) => d.links[k].mass,
+        set: (d, value) => withLink(d, k, { mass: value }),
+      });
+    }
+  });
+
+  data.motors.forEach((_, k) => {
+    parameters.push(
+      {
+        id: `motor-${k}-mass`,
+        label: `Motor ${k + 1} mass`,
+        quantity: "mass",
+        get: (d) => d.motors[k].mass,
+        set: (d, value) => withMotor(d, k, { mass: value }),
+      },
+      {
+        id: `motor-${k}-pivot`,
+        label: `Motor ${k + 1} pivot position`,
+        quantity: "length",
+        get: (d) => d.motors[k].pivotPosition,
+        set: (d, value) => withMotor(d, k, { pivotPosition: value }),
+      },
+      {
+        id: `motor-${k}-acceleration`,
+        label: `Motor ${k + 1} acceleration (deg/s²)`,
+        get: (d) => d.motors[k].acceleration,
+        set: (d, value) => withMotor(d, k, { acceleration: value }),
+      }
+    );
+  });
+
+  const materialIds = new Set(data.links.filter((link) => link.crossSection !== "mass").map((link) => link.material));
+  for (const id of materialIds) {
+    const material = findMaterial(id, data.customMaterials);
+    if (!material) continue;
+    parameters.push({
+      id: `material-${id}-density`,
+      label: `${material.name} density`,
+      quantity: "density",
+      get: (d) => findMaterial(id, d.customMaterials)?.density ?? material.density,
+      set: (d, value) => ({
+        ...d,
+        customMaterials: [
+          ...d.customMaterials.filter((entry) => entry.id !== id),
+          { ...(findMaterial(id, d.customMaterials) ?? material), density: value },
+        ],
+      }),
+    });
+  }
+
+  return parameters;
+}
+
+export interface SweepPoint {
+  value: number;
+  /** Null where the design is invalid, e.g. a sweep range that reaches a link length of 0 or below. */
+  results: MotorResult[] | null;
+}
+
+/** Calculates the design at `steps` evenly spaced values of a parameter from `from` to `to`. */
+export function sweep(data: InputData, parameter: SweepParameter, from: number, to: number, steps: number): SweepPoint[] {
+  const count = Math.max(2, Math.round(steps));
+  return Array.from({ length: count }, (_, i) => {
+    const value = from + ((to - from) * i) / (count - 1);
+    const calculation = performCalculations(parameter.set(data, value));
+    return { value, results: "errors" in calculation ? null : calculation.results };
+  });
+}
+
+export interface SensitivityBar {
+  parameter: SweepParameter;
+  /** Each joint's T_sf with the parameter decreased and increased by the variation (Nm), or null if invalid. */
+  low: (number | null)[];
+  high: (number | null)[];
+}
+
+/**
+ * One-at-a-time sensitivity of every joint's T_sf: each parameter is moved by
+ * ±variation (a fraction) of its current value with the others held. Parameters
+ * that are currently zero have no relative variation and are left out.
+ */
+export function sensitivity(data: InputData, variation: number): { base: MotorResult[]; bars: SensitivityBar[] } | { error: string } {
+  const calculation = performCalculations(data);
+  if ("errors" in calculation) return { error: describeIssues(calculation.errors) };
+  const base = calculation.results;
+
+  const torques = (changed: InputData) => {
+    const changedCalculation = performCalculations(changed);
+    return "errors" in changedCalculation
+      ? base.map(() => null)
+      : changedCalculation.results.map((result) => result.T_sf);
+  };
+
+  const bars = sweepParameters(data)
+    .filter((parameter) => parameter.get(data) !== 0)
+    .map((parameter) => {
+      const value = parameter.get(data);
+      return {
+        parameter,
+        low: torques(parameter.set(data, value * (1 - variation))),
+        high: torques(parameter.set(data, value * (1 + variation))),
+      };
+    });
+  return { base, bars };
+}
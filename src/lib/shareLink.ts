@@ -0,0 +1,51 @@
+import { parseProjectFile, type ProjectFile } from "./projectFile";
+
+/*
+ * A share link carries the whole project in the URL hash, so nothing is sent
+ * to a server: the project file JSON, deflated and base64url-encoded, as
+ * "#design=<code>". Being a project file it is versioned, and links made by
+ * older versions are migrated like older files.
+ */
+
+const HASH_KEY = "design";
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(code: string): Uint8Array {
+  const binary = atob(code.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+export async function encodeProject(project: ProjectFile): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(project));
+  return toBase64Url(await transform(json, new CompressionStream("deflate-raw")));
+}
+
+/** Reads a project back from its code. Throws if the code is damaged or not a valid project. */
+export async function decodeProject(code: string): Promise<ProjectFile> {
+  let json: string;
+  try {
+    json = new TextDecoder().decode(await transform(fromBase64Url(code), new DecompressionStream("deflate-raw")));
+  } catch {
+    throw new Error("The link is incomplete or damaged");
+  }
+  return parseProjectFile(json);
+}
+
+/** The project code in a URL hash such as "#design=...", or null if there is none. */
+export function sharedProjectCode(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, "")).get(HASH_KEY);
+}
+
+export function shareUrl(baseUrl: string, code: string): string {
+  return `${baseUrl.split("#")[0]}#${HASH_KEY}=${code}`;
+}
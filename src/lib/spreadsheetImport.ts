@@ -0,0 +1,592 @@
+import * as XLSX from "xlsx";
+import { validateDesign } from "./calculations";
+import { BUILT_IN_MATERIALS, DEFAULT_MATERIAL_ID, createMaterialId, type Material } from "./materials";
+import { MAX_JOINTS, emptyLink, emptyMotor, inputSchema, type InputValues } from "./schema";
+import { CROSS_SECTIONS, CROSS_SECTION_LABELS } from "./sections";
+import { UNITS, type Quantity } from "./units";
+
+/*
+ * Sheet layout
+ *
+ * A design is made of sections, each a table whose first row holds the column
+ * headers. In a workbook every sheet is a section named after the sheet. A row
+ * with only "[Name]" in its first cell starts a new section, so a CSV file (or
+ * a single sheet) can hold the whole design. Section and column names ignore
+ * case, spaces and punctuation: "Body Length" and "bodyLength" are the same.
+ *
+ *   General      Parameter | Value rows: Payload Mass, and optionally Density,
+ *                which becomes a material for links that name none.
+ *   Materials    Optional. Name, Density, Youngs Modulus (GPa), Yield Strength (MPa).
+ *   Links        One row per link from the base: Length, Material (name or id
+ *                of a built-in, saved or imported material), Cross Section,
+ *                Radius, Wall Thickness, Width, Height, Infill, Profile, Mass,
+ *                Centre Of Mass.
+ *   Motors       One row per motor, in the same order: Mass, Body Length, Pivot
+ *                Position, RPM, Rated Torque, Peak Torque, Max Speed (rpm),
+ *                Safety Factor, Axis, Angle, Min Angle, Max Angle, Speed,
+ *                Acceleration, and Gear Ratio, Gear Efficiency and Gear Mass
+ *                for a single-stage gearbox.
+ *   Gear Stages  Optional. Motor (1 = base), Ratio, Efficiency, Mass; one row
+ *                per stage from the motor side, replacing that motor's Gear
+ *                Ratio columns.
+ *
+ * Many designs can instead share one table, a row each (see importDesignRows):
+ * Name, Payload Mass and Density columns, then "Link 1 Length", "Motor 2 Gear
+ * Ratio" and so on, naming the joint before any Links or Motors column above.
+ *
+ * Blank cells and missing columns take the form's defaults. Lengths, masses,
+ * densities and torques are in SI units unless the header names another, e.g.
+ * "Length (mm)".
+ */
+
+export interface ImportIssue {
+  section: string;
+  /** Row number as shown by the spreadsheet. */
+  row?: number;
+  column?: string;
+  message: string;
+}
+
+export type ImportResult = { data: InputValues } | { errors: ImportIssue[] };
+
+interface Column {
+  key: string;
+  aliases?: string[];
+  quantity?: Quantity;
+  text?: boolean;
+}
+
+const GENERAL_PARAMETERS: Column[] = [
+  { key: "payloadMass", aliases: ["m_payload", "payload"], quantity: "mass" },
+  { key: "density", quantity: "density" },
+];
+
+const MATERIAL_COLUMNS: Column[] = [
+  { key: "name", text: true },
+  { key: "density", quantity: "density" },
+  { key: "youngsModulus" },
+  { key: "yieldStrength" },
+];
+
+const LINK_COLUMNS: Column[] = [
+  { key: "length", quantity: "length" },
+  { key: "material", text: true },
+  { key: "crossSection", text: true },
+  { key: "radius", quantity: "length" },
+  { key: "wallThickness", quantity: "length" },
+  { key: "width", quantity: "length" },
+  { key: "height", quantity: "length" },
+  { key: "infill" },
+  { key: "profile", text: true },
+  { key: "mass", quantity: "mass" },
+  { key: "centerOfMass", aliases: ["centreOfMass"], quantity: "length" },
+];
+
+const MOTOR_COLUMNS: Column[] = [
+  { key: "mass", quantity: "mass" },
+  { key: "bodyLength", quantity: "length" },
+  { key: "pivotPosition", quantity: "length" },
+  { key: "rpm" },
+  { key: "ratedTorque", quantity: "torque" },
+  { key: "peakTorque", quantity: "torque" },
+  { key: "maxSpeed" },
+  { key: "safetyFactor" },
+  { key: "axis", text: true },
+  { key: "angle" },
+  { key: "minAngle" },
+  { key: "maxAngle" },
+  { key: "speed" },
+  { key: "acceleration" },
+  { key: "gearRatio" },
+  { key: "gearEfficiency" },
+  { key: "gearMass", quantity: "mass" },
+];
+
+const GEAR_STAGE_COLUMNS: Column[] = [
+  { key: "motor" },
+  { key: "ratio" },
+  { key: "efficiency" },
+  { key: "mass", quantity: "mass" },
+];
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === "";
+
+interface Section {
+  name: string;
+  /** Spreadsheet row numbers alongside the cells of each row, header first. */
+  rows: { row: number; cells: unknown[] }[];
+}
+
+function readSections(workbook: XLSX.WorkBook): Map<string, Section> {
+  const sections = new Map<string, Section>();
+
+  for (const sheetName of workbook.SheetNames) {
+    const sheet = workbook.Sheets[sheetName];
+    const firstRow = XLSX.utils.decode_range(sheet["!ref"] ?? "A1").s.r;
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: "", blankrows: true });
+    let current: Section = { name: sheetName, rows: [] };
+    sections.set(normalize(sheetName), current);
+
+    rows.forEach((cells, i) => {
+      const marker = /^\[(.+)\]$/.exec(String(cells[0] ?? "").trim());
+      if (marker && cells.slice(1).every(isBlank)) {
+        current = { name: marker[1].trim(), rows: [] };
+        sections.set(normalize(current.name), current);
+      } else if (!cells.every(isBlank)) {
+        current.rows.push({ row: firstRow + i + 1, cells });
+      }
+    });
+  }
+  return sections;
+}
+
+/** Splits "Length (mm)" into the name and unit. */
+function splitHeader(header: string): { name: string; unit?: string } {
+  const match = /^(.*?)\s*[([]\s*([^)\]]*?)\s*[)\]]\s*$/.exec(header);
+  return match ? { name: match[1], unit: match[2] } : { name: header };
+}
+
+function findColumn(columns: Column[], name: string): Column | undefined {
+  const key = normalize(name);
+  return columns.find((column) => [column.key, ...(column.aliases ?? [])].some((alias) => normalize(alias) === key));
+}
+
+// Factor converting values in the header's unit to SI, or an error message
+function unitFactor(column: Column, unit: string | undefined): number | string {
+  if (!column.quantity || !unit) return 1;
+  const match = Object.entries(UNITS[column.quantity]).find(
+    ([id, definition]) => normalize(id) === normalize(unit) || definition.label === unit
+  );
+  return match ? match[1].toSI : `Unknown ${column.quantity} unit "${unit}"`;
+}
+
+type CellValue = number | string;
+
+function parseCell(value: unknown, column: Column, factor: number): CellValue | { error: string } {
+  if (column.text) return String(value).trim();
+  const number = typeof value === "number" ? value : Number(String(value).trim());
+  return Number.isFinite(number) ? number * factor : { error: `Expected a number, found "${value}"` };
+}
+
+interface Table {
+  /** Header text of every recognised column, by key. */
+  headers: Record<string, string>;
+  rows: { row: number; values: Record<string, CellValue> }[];
+}
+
+/** Reads a section whose first row is headers; blank cells are left out of `values`. */
+function readTable(section: Section, columns: Column[], issues: ImportIssue[]): Table {
+  const [header, ...body] = section.rows;
+  const table: Table = { headers: {}, rows: [] };
+  if (!header) return table;
+
+  const mapped = header.cells.map((cell) => {
+    const text = String(cell).trim();
+    if (text === "") return null;
+    const { name, unit } = splitHeader(text);
+    const column = findColumn(columns, name);
+    if (!column) {
+      issues.push({ section: section.name, row: header.row, column: text, message: "Unknown column" });
+      return null;
+    }
+    const factor = unitFactor(column, unit);
+    if (typeof factor === "string") {
+      issues.push({ section: section.name, row: header.row, column: text, message: factor });
+      return null;
+    }
+    table.headers[column.key] = text;
+    return { column, factor };
+  });
+
+  for (const { row, cells } of body) {
+    const values: Record<string, CellValue> = {};
+    mapped.forEach((entry, c) => {
+      if (!entry || isBlank(cells[c])) return;
+      const value = parseCell(cells[c], entry.column, entry.factor);
+      if (typeof value === "object") {
+        issues.push({ section: section.name, row, column: table.headers[entry.column.key], message: value.error });
+      } else {
+        values[entry.column.key] = value;
+      }
+    });
+    table.rows.push({ row, values });
+  }
+  return table;
+}
+
+interface Location {
+  section: string;
+  row?: number;
+  column?: string;
+}
+
+/** Reads Parameter | Value rows, with any unit in the parameter name. */
+function readParameters(section: Section, issues: ImportIssue[]) {
+  const values: Record<string, CellValue> = {};
+  const locations: Record<string, Location> = {};
+
+  for (const { row, cells } of section.rows) {
+    const text = String(cells[0]).trim();
+    const { name, unit } = splitHeader(text);
+    const column = findColumn(GENERAL_PARAMETERS, name);
+    if (!column) {
+      // A "Parameter | Value" header row is allowed
+      if (normalize(name) !== "parameter") {
+        issues.push({ section: section.name, row, column: text, message: "Unknown parameter" });
+      }
+      continue;
+    }
+    if (isBlank(cells[1])) continue;
+    const factor = unitFactor(column, unit);
+    const value = typeof factor === "string" ? { error: factor } : parseCell(cells[1], column, factor);
+    if (typeof value === "object") {
+      issues.push({ section: section.name, row, column: text, message: value.error });
+    } else {
+      values[column.key] = value;
+      locations[column.key] = { section: section.name, row, column: text };
+    }
+  }
+  return { values, locations };
+}
+
+// Builds a link from a row of values; `error` names a material that isn't known
+function linkFromValues(values: Record<string, CellValue>, known: Material[], defaultMaterial: string) {
+  let material = defaultMaterial;
+  let error: string | undefined;
+  if (values.material !== undefined) {
+    const wanted = normalize(String(values.material));
+    const match = known.find((entry) => normalize(entry.id) === wanted || normalize(entry.name) === wanted);
+    if (match) {
+      material = match.id;
+    } else {
+      error = `Unknown material "${values.material}"`;
+    }
+  }
+  const crossSection = values.crossSection === undefined ? undefined : String(values.crossSection);
+  const link = {
+    ...emptyLink(),
+    ...values,
+    material,
+    crossSection:
+      crossSection === undefined
+        ? "solid"
+        : (CROSS_SECTIONS.find(
+            (id) => normalize(id) === normalize(crossSection) || normalize(CROSS_SECTION_LABELS[id]) === normalize(crossSection)
+          ) ?? crossSection),
+    profile: values.profile === undefined ? emptyLink().profile : String(values.profile).toUpperCase(),
+  };
+  return { link, error };
+}
+
+// Builds a motor from a row of values, with the Gear columns as a single-stage gearbox
+function motorFromValues(values: Record<string, CellValue>) {
+  const { gearRatio, gearEfficiency, gearMass, axis, ...rest } = values;
+  return {
+    ...emptyMotor(),
+    ...rest,
+    axis: axis === undefined ? emptyMotor().axis : String(axis).toLowerCase(),
+    gearStages:
+      gearRatio === undefined
+        ? emptyMotor().gearStages
+        : [{ ratio: Number(gearRatio), efficiency: Number(gearEfficiency ?? 100), mass: Number(gearMass ?? 0) }],
+  };
+}
+
+const GEAR_COLUMNS = [
+  ["ratio", "gearRatio"],
+  ["efficiency", "gearEfficiency"],
+  ["mass", "gearMass"],
+];
+
+// A single density, as older sheets had, stands for the material of every link that names none
+const densityMaterialName = (density: CellValue) => `Imported (${density} kg/m³)`;
+
+// Validates assembled input data with the form's schema and then the
+// calculator's own checks, so a design that imports can also be calculated.
+// Each problem is reported against the most specific cell it came from.
+function validate(values: unknown, locations: Map<string, Location>, fallback: Location): ImportResult {
+  const locate = (path: string[], message: string): ImportIssue => {
+    while (path.length > 0 && !locations.has(path.join("."))) path.pop();
+    return { ...(locations.get(path.join(".")) ?? fallback), message };
+  };
+
+  const result = inputSchema.safeParse(values);
+  if (!result.success) {
+    return { errors: result.error.issues.map((issue) => locate(issue.path.map(String), issue.message)) };
+  }
+  const issues = validateDesign(result.data);
+  if (issues.length > 0) {
+    return { errors: issues.map((issue) => locate(issue.path === "" ? [] : issue.path.split("."), issue.message)) };
+  }
+  return { data: result.data };
+}
+
+/**
+ * Reads a design from an Excel workbook or CSV file laid out as described at
+ * the top of this module and validates it as the form and calculator do.
+ * Imported materials are added to `customMaterials`, replacing any with the
+ * same name.
+ */
+export function importSpreadsheet(file: ArrayBuffer, customMaterials: Material[]): ImportResult {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(file, { type: "array" });
+  } catch {
+    return { errors: [{ section: "File", message: "Not a readable Excel or CSV file" }] };
+  }
+
+  const sections = readSections(workbook);
+  const issues: ImportIssue[] = [];
+  // Where each value came from, by its path in the input data
+  const locations = new Map<string, Location>();
+  const section = (name: string) => sections.get(normalize(name));
+
+  const links = section("Links");
+  const motors = section("Motors");
+  if (!links || !motors) {
+    return { errors: [{ section: links ? "Motors" : "Links", message: "Section not found" }] };
+  }
+
+  const general = section("General");
+  const parameters = general ? readParameters(general, issues) : { values: {}, locations: {} };
+  const { payloadMass = 0, density } = parameters.values;
+  if (parameters.locations.payloadMass) locations.set("m_payload", parameters.locations.payloadMass);
+
+  // Materials
+  const imported: Material[] = [];
+  const importedRows: Location[] = [];
+  const materialsSection = section("Materials");
+  if (materialsSection) {
+    const table = readTable(materialsSection, MATERIAL_COLUMNS, issues);
+    for (const { row, values } of table.rows) {
+      const name = String(values.name ?? "");
+      const existing = customMaterials.find((material) => normalize(material.name) === normalize(name));
+      importedRows.push({ section: materialsSection.name, row });
+      imported.push({
+        id: existing?.id ?? createMaterialId(),
+        name,
+        density: Number(values.density ?? 0),
+        youngsModulus: Number(values.youngsModulus ?? 0),
+        yieldStrength: Number(values.yieldStrength ?? 0),
+      });
+    }
+  }
+  const densityName = density === undefined ? "" : densityMaterialName(density);
+  if (density !== undefined && ![...customMaterials, ...imported].some((material) => material.name === densityName)) {
+    importedRows.push(parameters.locations.density);
+    imported.push({ id: createMaterialId(), name: densityName, density: Number(density), youngsModulus: 0, yieldStrength: 0 });
+  }
+  const importedNames = new Set(imported.map((material) => normalize(material.name)));
+  const materials = [
+    ...customMaterials.filter((material) => !importedNames.has(normalize(material.name))),
+    ...imported,
+  ];
+  importedRows.forEach((location, j) => {
+    locations.set(`customMaterials.${materials.length - imported.length + j}`, location);
+  });
+  const known = [...BUILT_IN_MATERIALS, ...materials];
+  const defaultMaterial =
+    density !== undefined ? known.find((material) => material.name === densityName)!.id : DEFAULT_MATERIAL_ID;
+
+  // Links
+  const linkTable = readTable(links, LINK_COLUMNS, issues);
+  const linkValues = linkTable.rows.map(({ row, values }, i) => {
+    for (const key of Object.keys(linkTable.headers)) {
+      locations.set(`links.${i}.${key}`, { section: links.name, row, column: linkTable.headers[key] });
+    }
+    locations.set(`links.${i}`, { section: links.name, row });
+
+    const { link, error } = linkFromValues(values, known, defaultMaterial);
+    if (error) issues.push({ section: links.name, row, column: linkTable.headers.material, message: error });
+    return link;
+  });
+  locations.set("links", { section: links.name, row: linkTable.rows[0]?.row });
+
+  // Motors and their gear stages
+  const motorTable = readTable(motors, MOTOR_COLUMNS, issues);
+  const motorValues = motorTable.rows.map(({ row, values }, i) => {
+    for (const key of Object.keys(motorTable.headers)) {
+      locations.set(`motors.${i}.${key}`, { section: motors.name, row, column: motorTable.headers[key] });
+    }
+    locations.set(`motors.${i}`, { section: motors.name, row });
+    for (const [key, column] of GEAR_COLUMNS) {
+      locations.set(`motors.${i}.gearStages.0.${key}`, { section: motors.name, row, column: motorTable.headers[column] });
+    }
+    return motorFromValues(values);
+  });
+  locations.set("motors", { section: motors.name, row: motorTable.rows[0]?.row });
+
+  const stagesSection = section("Gear Stages");
+  if (stagesSection) {
+    const table = readTable(stagesSection, GEAR_STAGE_COLUMNS, issues);
+    const replaced = new Set<number>();
+    for (const { row, values } of table.rows) {
+      const motor = Number(values.motor);
+      if (!Number.isInteger(motor) || motor < 1 || motor > motorValues.length) {
+        issues.push({
+          section: stagesSection.name,
+          row,
+          column: table.headers.motor,
+          message: `Motor must be a number from 1 to ${motorValues.length}`,
+        });
+        continue;
+      }
+      const target = motorValues[motor - 1];
+      if (!replaced.has(motor)) {
+        target.gearStages = [];
+        replaced.add(motor);
+      }
+      const k = target.gearStages.length;
+      for (const key of ["ratio", "efficiency", "mass"]) {
+        locations.set(`motors.${motor - 1}.gearStages.${k}.${key}`, { section: stagesSection.name, row, column: table.headers[key] });
+      }
+      target.gearStages.push({
+        ratio: Number(values.ratio ?? 1),
+        efficiency: Number(values.efficiency ?? 100),
+        mass: Number(values.mass ?? 0),
+      });
+    }
+  }
+
+  if (issues.length > 0) return { errors: issues };
+
+  return validate(
+    { m_payload: payloadMass, customMaterials: materials, links: linkValues, motors: motorValues },
+    locations,
+    { section: general?.name ?? "General" }
+  );
+}
+
+/** Whether a file holds a single design in sections, rather than one design per row. */
+export function isSectionedSpreadsheet(file: ArrayBuffer): boolean {
+  try {
+    const sections = readSections(XLSX.read(file, { type: "array" }));
+    return sections.has(normalize("Links")) && sections.has(normalize("Motors"));
+  } catch {
+    return false;
+  }
+}
+
+export interface RowDesign {
+  /** From the Name column, or the row number. */
+  name: string;
+  row: number;
+  result: ImportResult;
+}
+
+const ROW_COLUMNS: Column[] = [{ key: "name", aliases: ["design"], text: true }, ...GENERAL_PARAMETERS];
+
+/**
+ * Reads one design per row from the first sheet of a workbook or CSV file.
+ * Each design has as many joints as its highest numbered link or motor with a
+ * value; links take the built-in or given materials, or an imported material
+ * when the row has a Density. Problems with the headers fail the whole table,
+ * problems in a row only fail that design.
+ */
+export function importDesignRows(file: ArrayBuffer, customMaterials: Material[]): RowDesign[] | { errors: ImportIssue[] } {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(file, { type: "array" });
+  } catch {
+    return { errors: [{ section: "File", message: "Not a readable Excel or CSV file" }] };
+  }
+
+  const [table] = readSections(workbook).values();
+  const [header, ...body] = table?.rows ?? [];
+  if (!header) return { errors: [{ section: table?.name ?? "File", message: "No header row" }] };
+
+  const issues: ImportIssue[] = [];
+  const mapped = header.cells.map((cell) => {
+    const text = String(cell).trim();
+    if (text === "") return null;
+    const { name, unit } = splitHeader(text);
+    const joint = /^(link|motor)\s*(\d+)\s*(.*)$/i.exec(name.trim());
+    const kind: "general" | "links" | "motors" = joint ? (joint[1].toLowerCase() === "link" ? "links" : "motors") : "general";
+    const index = joint ? Number(joint[2]) - 1 : -1;
+    const column = findColumn(
+      kind === "links" ? LINK_COLUMNS : kind === "motors" ? MOTOR_COLUMNS : ROW_COLUMNS,
+      joint ? joint[3] : name
+    );
+    if (!column || (joint && (index < 0 || index >= MAX_JOINTS))) {
+      issues.push({ section: table.name, row: header.row, column: text, message: "Unknown column" });
+      return null;
+    }
+    const factor = unitFactor(column, unit);
+    if (typeof factor === "string") {
+      issues.push({ section: table.name, row: header.row, column: text, message: factor });
+      return null;
+    }
+    return { column, factor, header: text, kind, index };
+  });
+  if (issues.length > 0) return { errors: issues };
+
+  return body.map(({ row, cells }): RowDesign => {
+    const rowIssues: ImportIssue[] = [];
+    const locations = new Map<string, Location>();
+    const general: Record<string, CellValue> = {};
+    const joints: Record<"links" | "motors", Record<string, CellValue>[]> = { links: [], motors: [] };
+
+    mapped.forEach((entry, c) => {
+      if (!entry || isBlank(cells[c])) return;
+      const value = parseCell(cells[c], entry.column, entry.factor);
+      const location = { section: table.name, row, column: entry.header };
+      if (typeof value === "object") {
+        rowIssues.push({ ...location, message: value.error });
+      } else if (entry.kind === "general") {
+        general[entry.column.key] = value;
+        locations.set(entry.column.key === "payloadMass" ? "m_payload" : entry.column.key, location);
+      } else {
+        (joints[entry.kind][entry.index] ??= {})[entry.column.key] = value;
+        locations.set(`${entry.kind}.${entry.index}.${entry.column.key}`, location);
+      }
+    });
+
+    const name = general.name === undefined ? `Row ${row}` : String(general.name);
+    const materials = [...customMaterials];
+    let defaultMaterial = DEFAULT_MATERIAL_ID;
+    if (general.density !== undefined) {
+      const materialName = densityMaterialName(general.density);
+      const existing = materials.find((material) => material.name === materialName);
+      defaultMaterial = existing?.id ?? createMaterialId();
+      if (!existing) {
+        materials.push({ id: defaultMaterial, name: materialName, density: Number(general.density), youngsModulus: 0, yieldStrength: 0 });
+      }
+    }
+    const known = [...BUILT_IN_MATERIALS, ...materials];
+
+    const count = Math.max(joints.links.length, joints.motors.length);
+    const links = Array.from({ length: count }, (_, i) => {
+      const { link, error } = linkFromValues(joints.links[i] ?? {}, known, defaultMaterial);
+      if (error) rowIssues.push({ ...locations.get(`links.${i}.material`)!, message: error });
+      return link;
+    });
+    const motors = Array.from({ length: count }, (_, i) => {
+      for (const [key, column] of GEAR_COLUMNS) {
+        const location = locations.get(`motors.${i}.${column}`);
+        if (location) locations.set(`motors.${i}.gearStages.0.${key}`, location);
+      }
+      return motorFromValues(joints.motors[i] ?? {});
+    });
+
+    if (rowIssues.length > 0) return { name, row, result: { errors: rowIssues } };
+    // Only the materials this design's links use are kept with it
+    const used = materials.filter((material) => links.some((link) => link.material === material.id));
+    const imported = used.findIndex((material) => material.id === defaultMaterial);
+    if (general.density !== undefined && imported >= 0) locations.set(`customMaterials.${imported}`, locations.get("density")!);
+    return {
+      name,
+      row,
+      result: validate(
+        { m_payload: general.payloadMass ?? 0, customMaterials: used, links, motors },
+        locations,
+        { section: table.name, row }
+      ),
+    };
+  });
+}
+
+export function formatImportIssue({ section, row, column, message }: ImportIssue): string {
+  return [section, row !== undefined && `row ${row}`, column && `column "${column}"`].filter(Boolean).join(", ") + `: ${message}`;
+}
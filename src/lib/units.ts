@@ -0,0 +1,108 @@
+export const QUANTITIES = ["length", "mass", "density", "force", "torque", "power"] as const;
+
+export type Quantity = (typeof QUANTITIES)[number];
+
+interface UnitDefinition {
+  label: string;
+  /** Multiply a value in this unit by `toSI` to get the SI value. */
+  toSI: number;
+}
+
+export const UNITS: Record<Quantity, Record<string, UnitDefinition>> = {
+  length: {
+    m: { label: "m", toSI: 1 },
+    cm: { label: "cm", toSI: 0.01 },
+    mm: { label: "mm", toSI: 0.001 },
+    in: { label: "in", toSI: 0.0254 },
+    ft: { label: "ft", toSI: 0.3048 },
+  },
+  mass: {
+    kg: { label: "kg", toSI: 1 },
+    g: { label: "g", toSI: 0.001 },
+    lb: { label: "lb", toSI: 0.45359237 },
+    oz: { label: "oz", toSI: 0.028349523125 },
+  },
+  density: {
+    "kg/m3": { label: "kg/m³", toSI: 1 },
+    "g/cm3": { label: "g/cm³", toSI: 1000 },
+    "lb/in3": { label: "lb/in³", toSI: 27679.9047102 },
+    "lb/ft3": { label: "lb/ft³", toSI: 16.0184633740 },
+  },
+  force: {
+    N: { label: "N", toSI: 1 },
+    kgf: { label: "kgf", toSI: 9.80665 },
+    lbf: { label: "lbf", toSI: 4.4482216152605 },
+  },
+  torque: {
+    Nm: { label: "Nm", toSI: 1 },
+    Nmm: { label: "N·mm", toSI: 0.001 },
+    kgfcm: { label: "kgf·cm", toSI: 0.0980665 },
+    ozin: { label: "oz-in", toSI: 0.00706155181422 },
+    lbin: { label: "lb-in", toSI: 0.112984829028 },
+    lbft: { label: "lb-ft", toSI: 1.35581794833 },
+  },
+  power: {
+    W: { label: "W", toSI: 1 },
+    kW: { label: "kW", toSI: 1000 },
+    hp: { label: "hp", toSI: 745.699871582 },
+  },
+};
+
+export const UNIT_SYSTEMS = {
+  si: { label: "SI (m, kg, Nm)", units: { length: "m", mass: "kg", density: "kg/m3", force: "N", torque: "Nm", power: "W" } },
+  mmg: { label: "mm / g", units: { length: "mm", mass: "g", density: "g/cm3", force: "N", torque: "Nmm", power: "W" } },
+  imperial: { label: "Imperial (in, lb)", units: { length: "in", mass: "lb", density: "lb/in3", force: "lbf", torque: "lbin", power: "W" } },
+} satisfies Record<string, { label: string; units: Record<Quantity, string> }>;
+
+export type UnitSystem = keyof typeof UNIT_SYSTEMS;
+
+export interface UnitSettings {
+  system: UnitSystem;
+  /** Units chosen for individual quantities instead of the system's. */
+  overrides: Partial<Record<Quantity, string>>;
+}
+
+export const DEFAULT_UNIT_SETTINGS: UnitSettings = { system: "si", overrides: {} };
+
+export function unitFor(settings: UnitSettings, quantity: Quantity): string {
+  const override = settings.overrides[quantity];
+  return override && override in UNITS[quantity] ? override : UNIT_SYSTEMS[settings.system].units[quantity];
+}
+
+export function unitLabel(settings: UnitSettings, quantity: Quantity): string {
+  return UNITS[quantity][unitFor(settings, quantity)].label;
+}
+
+/** Converts a value entered in the chosen unit to SI. */
+export function toSI(settings: UnitSettings, quantity: Quantity, value: number): number {
+  return value * UNITS[quantity][unitFor(settings, quantity)].toSI;
+}
+
+/** Converts an SI value to the chosen unit. */
+export function fromSI(settings: UnitSettings, quantity: Quantity, value: number): number {
+  return value / UNITS[quantity][unitFor(settings, quantity)].toSI;
+}
+
+/** Formats an SI value in the chosen unit, by default with the two decimals the results have always used. */
+export function formatQuantity(settings: UnitSettings, quantity: Quantity, value: number, digits = 2): string {
+  return fromSI(settings, quantity, value).toFixed(digits);
+}
+
+const STORAGE_KEY = "robotic-arm-calculator:units";
+
+/** Unit settings saved in this browser, or the SI defaults. */
+export function loadUnitSettings(): UnitSettings {
+  if (typeof window === "undefined") return DEFAULT_UNIT_SETTINGS;
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (stored && stored.system in UNIT_SYSTEMS && typeof stored.overrides === "object") return stored;
+  } catch {
+    // Fall through to the defaults
+  }
+  return DEFAULT_UNIT_SETTINGS;
+}
+
+export function saveUnitSettings(settings: UnitSettings) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
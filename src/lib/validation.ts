@@ -0,0 +1,47 @@
+export type IssueSeverity = "error" | "warning";
+
+/** What kind of problem an issue is, for programs that handle some kinds themselves. */
+export type IssueCode =
+  | "negative"
+  | "not_positive"
+  | "out_of_range"
+  | "not_a_number"
+  | "unknown_option"
+  | "unknown_material"
+  | "too_few"
+  | "count_mismatch"
+  | "calculation_failed"
+  | "pivots_not_increasing"
+  | "pivot_outside_link"
+  | "motors_overlap"
+  | "zero_gear_ratio"
+  | "zero_rpm";
+
+/**
+ * A problem with a design's inputs. Errors stop the design being calculated;
+ * warnings point out something suspicious in a design that still calculates.
+ */
+export interface DesignIssue {
+  /** Dotted path of the input, e.g. "motors.2.gearStages.0.ratio", or "" for the design as a whole. */
+  path: string;
+  severity: IssueSeverity;
+  code: IssueCode;
+  message: string;
+}
+
+export const designError = (path: string, code: IssueCode, message: string): DesignIssue => ({
+  path,
+  severity: "error",
+  code,
+  message,
+});
+
+export const designWarning = (path: string, code: IssueCode, message: string): DesignIssue => ({
+  path,
+  severity: "warning",
+  code,
+  message,
+});
+
+/** The issues' messages as one line, for places that show a single message. */
+export const describeIssues = (issues: DesignIssue[]) => issues.map((issue) => issue.message).join("; ");
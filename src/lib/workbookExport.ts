@@ -0,0 +1,307 @@
+import * as XLSX from "xlsx";
+import { buildArmModel, g, performCalculations, torqueBreakdown, type MotorResult } from "./calculations";
+import { gearTrain } from "./gearing";
+import { degToRad } from "./kinematics";
+import { findMaterial } from "./materials";
+import type { InputValues } from "./schema";
+import { UNITS, unitFor, unitLabel, type UnitSettings } from "./units";
+
+/*
+ * The exported workbook has three sheets:
+ *
+ *   Inputs     The design in SI units, laid out so "Import Excel/CSV" reads it back.
+ *   Breakdown  Every load on every joint: mass, weight, moment arm and torque.
+ *   Results    Each motor's torques and powers in the chosen units.
+ *
+ * Breakdown and Results are Excel formulas on the inputs, so payload and
+ * motor masses, gear stages, safety factors, speeds and accelerations can be
+ * changed in Excel and the static torques and everything after them
+ * recompute. Moment arms, link masses and inertias depend on the whole
+ * geometry and are exported as values for the pose the design was calculated
+ * at, so the dynamic torque follows acceleration edits but not mass edits.
+ */
+
+type Cell = XLSX.CellObject | string | number | null;
+
+const formula = (f: string, v: number): XLSX.CellObject => ({ t: "n", f, v });
+
+// Sheet rows built up while remembering where things were put
+class SheetBuilder {
+  rows: Cell[][] = [];
+
+  constructor(private name: string) {}
+
+  /** Adds a row and returns its 0-based index. */
+  push(...cells: Cell[]): number {
+    this.rows.push(cells);
+    return this.rows.length - 1;
+  }
+
+  /** Address of a cell for formulas on this sheet. */
+  cell(row: number, column: number): string {
+    return XLSX.utils.encode_cell({ r: row, c: column });
+  }
+
+  /** Reference to a cell of this sheet from another sheet. */
+  ref(row: number, column: number): string {
+    return `${this.name}!${this.cell(row, column)}`;
+  }
+
+  toSheet(): XLSX.WorkSheet {
+    return XLSX.utils.aoa_to_sheet(this.rows);
+  }
+}
+
+interface MotorRefs {
+  mass: string;
+  rpm: string;
+  safetyFactor: string;
+  speed: string;
+  acceleration: string;
+  stages: { ratio: string; efficiency: string; mass: string }[];
+}
+
+function writeInputs(values: InputValues, inputs: SheetBuilder) {
+  const materialName = (id: string) => findMaterial(id, values.customMaterials)?.name ?? id;
+
+  inputs.push("[General]");
+  inputs.push("Parameter", "Value");
+  const payload = inputs.ref(inputs.push("Payload Mass (kg)", values.m_payload), 1);
+
+  if (values.customMaterials.length > 0) {
+    inputs.push();
+    inputs.push("[Materials]");
+    inputs.push("Name", "Density (kg/m³)", "Youngs Modulus (GPa)", "Yield Strength (MPa)");
+    for (const material of values.customMaterials) {
+      inputs.push(material.name, material.density, material.youngsModulus, material.yieldStrength);
+    }
+  }
+
+  inputs.push();
+  inputs.push("[Links]");
+  inputs.push(
+    "Length (m)",
+    "Material",
+    "Cross Section",
+    "Radius (m)",
+    "Wall Thickness (m)",
+    "Width (m)",
+    "Height (m)",
+    "Infill (%)",
+    "Profile",
+    "Mass (kg)",
+    "Centre Of Mass (m)"
+  );
+  const linkMass = values.links.map((link) =>
+    inputs.ref(
+      inputs.push(
+        link.length,
+        materialName(link.material),
+        link.crossSection,
+        link.radius,
+        link.wallThickness,
+        link.width,
+        link.height,
+        link.infill,
+        link.profile,
+        link.mass,
+        link.centerOfMass
+      ),
+      9
+    )
+  );
+
+  inputs.push();
+  inputs.push("[Motors]");
+  inputs.push(
+    "Mass (kg)",
+    "Body Length (m)",
+    "Pivot Position (m)",
+    "RPM",
+    "Rated Torque (Nm)",
+    "Peak Torque (Nm)",
+    "Max Speed (rpm)",
+    "Safety Factor",
+    "Axis",
+    "Angle (°)",
+    "Min Angle (°)",
+    "Max Angle (°)",
+    "Speed (°/s)",
+    "Acceleration (°/s²)"
+  );
+  const motors: MotorRefs[] = values.motors.map((motor) => {
+    const row = inputs.push(
+      motor.mass,
+      motor.bodyLength,
+      motor.pivotPosition,
+      motor.rpm,
+      motor.ratedTorque,
+      motor.peakTorque,
+      motor.maxSpeed,
+      motor.safetyFactor,
+      motor.axis,
+      motor.angle,
+      motor.minAngle,
+      motor.maxAngle,
+      motor.speed,
+      motor.acceleration
+    );
+    return {
+      mass: inputs.ref(row, 0),
+      rpm: inputs.ref(row, 3),
+      safetyFactor: inputs.ref(row, 7),
+      speed: inputs.ref(row, 12),
+      acceleration: inputs.ref(row, 13),
+      stages: [],
+    };
+  });
+
+  inputs.push();
+  inputs.push("[Gear Stages]");
+  inputs.push("Motor", "Ratio", "Efficiency (%)", "Mass (kg)");
+  values.motors.forEach((motor, j) => {
+    for (const stage of motor.gearStages) {
+      const row = inputs.push(j + 1, stage.ratio, stage.efficiency, stage.mass);
+      motors[j].stages.push({ ratio: inputs.ref(row, 1), efficiency: inputs.ref(row, 2), mass: inputs.ref(row, 3) });
+    }
+  });
+
+  return { payload, linkMass, motors };
+}
+
+/** Formula of a product of factors, or 1 when there are none. */
+const product = (factors: string[]) => (factors.length > 0 ? factors.join("*") : "1");
+
+// Unit conversions left out of formulas where they do nothing
+const times = (expression: string, factor: number) => (factor === 1 ? expression : `${expression}*${factor}`);
+const over = (expression: string, factor: number) => (factor === 1 ? expression : `${expression}/${factor}`);
+
+function writeResults(
+  values: InputValues,
+  results: MotorResult[],
+  units: UnitSettings,
+  breakdown: SheetBuilder,
+  resultsSheet: SheetBuilder,
+  refs: ReturnType<typeof writeInputs>
+) {
+  breakdown.push("Motor", "Source", "Mass (kg)", "Weight (N)", "Moment Arm (m)", "Torque (Nm)");
+
+  // Every load's mass, as a formula on the inputs where it comes straight from them
+  const massFormulas = new Map<string, string>([["Payload", refs.payload]]);
+  values.links.forEach((link, k) => {
+    if (link.crossSection === "mass") massFormulas.set(`Link ${k + 1}`, refs.linkMass[k]);
+  });
+  refs.motors.forEach((motor, k) => {
+    massFormulas.set(`Motor ${k + 1}`, [motor.mass, ...motor.stages.map((stage) => stage.mass)].join("+"));
+  });
+
+  // Loads without mass still get a row, so entering a mass for them in Excel counts
+  const terms = torqueBreakdown(
+    buildArmModel(values),
+    values.motors.map((motor) => degToRad(motor.angle)),
+    true
+  );
+  const torqueRanges = terms.map((joint, j) => {
+    const rows = joint.map((term) => {
+      const row = breakdown.rows.length;
+      const mass = term.weight / g;
+      const massFormula = massFormulas.get(term.source);
+      return breakdown.push(
+        j + 1,
+        term.source,
+        massFormula ? formula(massFormula, mass) : mass,
+        formula(`${breakdown.cell(row, 2)}*${g}`, term.weight),
+        term.momentArm,
+        formula(`${breakdown.cell(row, 3)}*${breakdown.cell(row, 4)}`, term.torque)
+      );
+    });
+    return rows.length > 0 ? `SUM(${breakdown.ref(rows[0], 5)}:${breakdown.cell(rows[rows.length - 1], 5)})` : "0";
+  });
+
+  // Results are shown in the chosen units; toSI factors convert at the points where SI values come in
+  const T = unitLabel(units, "torque");
+  const P = unitLabel(units, "power");
+  const torqueToSI = UNITS.torque[unitFor(units, "torque")].toSI;
+  const powerToSI = UNITS.power[unitFor(units, "power")].toSI;
+  const stageCount = Math.max(0, ...values.motors.map((motor) => motor.gearStages.length));
+
+  resultsSheet.push(
+    "Motor",
+    "Inertia (kg·m²)",
+    `Torque Static (${T})`,
+    `Torque Dynamic (${T})`,
+    `Torque Total (${T})`,
+    `Torque SF (${T})`,
+    "Gear Ratio",
+    "Gear Efficiency",
+    `Torque Before (${T})`,
+    `Torque Before SF (${T})`,
+    ...Array.from({ length: stageCount }, (_, k) => `Stage ${k + 1} Rating (${T})`),
+    `Power (${P})`,
+    `Power SF (${P})`,
+    `Peak Power (${P})`
+  );
+
+  results.forEach((result, j) => {
+    const row = resultsSheet.rows.length;
+    const cell = (column: number) => resultsSheet.cell(row, column);
+    const motor = refs.motors[j];
+    const { safetyFactor: SF } = motor;
+    const ratio = product(motor.stages.map((stage) => stage.ratio));
+    const efficiency = product(motor.stages.map((stage) => `${stage.efficiency}/100`));
+    const train = gearTrain(values.motors[j].gearStages);
+    const stageRatings = Array.from({ length: stageCount }, (_, k) => {
+      if (k >= motor.stages.length) return null;
+      const value = result.T_stages[k] / torqueToSI;
+      const downstream = motor.stages.slice(k + 1);
+      if (downstream.length === 0) return formula(cell(5), value);
+      const factor = product(downstream.map((stage) => `${stage.ratio}*${stage.efficiency}/100`));
+      return formula(`IF(${factor}=0,0,${cell(5)}/(${factor}))`, value);
+    });
+    const powerColumn = 10 + stageCount;
+
+    resultsSheet.push(
+      j + 1,
+      result.I,
+      formula(over(torqueRanges[j], torqueToSI), result.T_static / torqueToSI),
+      formula(over(`${cell(1)}*RADIANS(${motor.acceleration})`, torqueToSI), result.T_dynamic / torqueToSI),
+      formula(`${cell(2)}+IF(${cell(2)}<0,-${cell(3)},${cell(3)})`, result.T_total / torqueToSI),
+      formula(`${SF}*${cell(4)}`, result.T_sf / torqueToSI),
+      formula(ratio, train.ratio),
+      formula(efficiency, train.efficiency),
+      formula(`IF(${cell(6)}=0,0,${cell(4)}/(${cell(6)}*${cell(7)}))`, result.T_before / torqueToSI),
+      formula(`${SF}*${cell(8)}`, result.T_before_sf / torqueToSI),
+      ...stageRatings,
+      formula(
+        `IF(${motor.rpm}=0,0,${over(`${times(cell(8), torqueToSI)}*${motor.rpm}*1000/9550`, powerToSI)})`,
+        result.P / powerToSI
+      ),
+      formula(`${SF}*${cell(powerColumn)}`, result.P_sf / powerToSI),
+      formula(over(`ABS(${times(cell(4), torqueToSI)})*RADIANS(${motor.speed})`, powerToSI), result.P_peak / powerToSI)
+    );
+  });
+}
+
+/**
+ * Builds the engineering workbook for a design. The inputs are always
+ * written; if the design cannot be calculated the Results sheet says why.
+ */
+export function buildWorkbook(values: InputValues, units: UnitSettings): XLSX.WorkBook {
+  const inputs = new SheetBuilder("Inputs");
+  const breakdown = new SheetBuilder("Breakdown");
+  const resultsSheet = new SheetBuilder("Results");
+  const refs = writeInputs(values, inputs);
+  const calculation = performCalculations(values);
+
+  if ("errors" in calculation) {
+    for (const error of calculation.errors) resultsSheet.push("Error", error.message);
+  } else {
+    writeResults(values, calculation.results, units, breakdown, resultsSheet, refs);
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, inputs.toSheet(), "Inputs");
+  if (breakdown.rows.length > 0) XLSX.utils.book_append_sheet(workbook, breakdown.toSheet(), "Breakdown");
+  XLSX.utils.book_append_sheet(workbook, resultsSheet.toSheet(), "Results");
+  return workbook;
+}
@@ -0,0 +1,154 @@
+import { buildArmModel, holdingTorques, type ArmModel, type InputData } from "./calculations";
+import { degToRad } from "./kinematics";
+
+export interface WorstCaseResult {
+  /** Largest holding torque magnitude found within the joint limits (Nm). */
+  T_max: number;
+  T_max_sf: number;
+  /** Joint angles (degrees) of the pose that produces T_max. */
+  angles: number[];
+}
+
+const SAMPLES_PER_JOINT = 24;
+const RANDOM_SEEDS = 16;
+const MAX_SWEEPS = 8;
+const REFINE_STEPS = 20;
+
+// Small deterministic generator so repeated searches report the same pose.
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Hands control back to the browser so it can repaint and handle input
+const nextTask = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+export interface WorstCaseOptions {
+  /** Called with the fraction of the search done, from 0 to 1. */
+  onProgress?: (fraction: number) => void;
+  /** Stops the search, which then resolves to an error. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Maximises |torque| of joint `j` by coordinate ascent from several starting
+ * poses: each sweep scans one joint at a time over its whole range, then the
+ * best pose is polished with a shrinking local step. `afterStart` runs between
+ * starting poses.
+ */
+async function searchJoint(
+  model: ArmModel,
+  j: number,
+  min: number[],
+  max: number[],
+  starts: number[][],
+  afterStart: () => Promise<void>
+) {
+  const evaluate = (angles: number[]) => Math.abs(holdingTorques(model, angles.map(degToRad))[j]);
+
+  let bestAngles = starts[0];
+  let best = -Infinity;
+
+  for (const start of starts) {
+    const angles = start.slice();
+    let value = evaluate(angles);
+
+    for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+      let improved = false;
+      for (let k = 0; k < angles.length; k++) {
+        if (min[k] === max[k]) continue;
+        for (let step = 0; step <= SAMPLES_PER_JOINT; step++) {
+          const candidate = angles.slice();
+          candidate[k] = min[k] + ((max[k] - min[k]) * step) / SAMPLES_PER_JOINT;
+          const candidateValue = evaluate(candidate);
+          if (candidateValue > value + 1e-12) {
+            angles[k] = candidate[k];
+            value = candidateValue;
+            improved = true;
+          }
+        }
+      }
+      if (!improved) break;
+    }
+
+    if (value > best) {
+      best = value;
+      bestAngles = angles;
+    }
+    await afterStart();
+  }
+
+  // Local refinement between grid points
+  let step = Math.max(...max.map((hi, k) => (hi - min[k]) / SAMPLES_PER_JOINT));
+  for (let i = 0; i < REFINE_STEPS && step > 1e-3; i++) {
+    let improved = false;
+    for (let k = 0; k < bestAngles.length; k++) {
+      for (const direction of [-1, 1]) {
+        const candidate = bestAngles.slice();
+        candidate[k] = clamp(candidate[k] + direction * step, min[k], max[k]);
+        const candidateValue = evaluate(candidate);
+        if (candidateValue > best + 1e-12) {
+          bestAngles = candidate;
+          best = candidateValue;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) step /= 2;
+  }
+
+  return { T_max: best, angles: bestAngles };
+}
+
+/**
+ * Searches the configuration space bounded by each motor's joint limits for
+ * the pose that maximises that motor's holding torque. The search takes
+ * seconds for long arms, so it yields to the browser between starting poses
+ * and reports its progress.
+ */
+export async function findWorstCasePoses(
+  data: InputData,
+  { onProgress, signal }: WorstCaseOptions = {}
+): Promise<WorstCaseResult[] | { error: string }> {
+  try {
+    const model = buildArmModel(data);
+    const { motors } = data;
+    const min = motors.map((motor) => motor.minAngle);
+    const max = motors.map((motor) => motor.maxAngle);
+    const random = createRandom(motors.length);
+
+    const starts: number[][] = [
+      motors.map((motor) => clamp(motor.angle, motor.minAngle, motor.maxAngle)),
+      min.map((lo, k) => (lo + max[k]) / 2),
+      min.slice(),
+      max.slice(),
+    ];
+    for (let i = 0; i < RANDOM_SEEDS; i++) {
+      starts.push(min.map((lo, k) => lo + (max[k] - lo) * random()));
+    }
+
+    const total = motors.length * starts.length;
+    let done = 0;
+    const afterStart = async () => {
+      onProgress?.(++done / total);
+      await nextTask();
+      if (signal?.aborted) throw new Error("The worst-case search was cancelled");
+    };
+
+    const results: WorstCaseResult[] = [];
+    for (const [j, motor] of motors.entries()) {
+      const { T_max, angles } = await searchJoint(model, j, min, max, starts, afterStart);
+      results.push({ T_max, T_max_sf: motor.safetyFactor * T_max, angles });
+    }
+    return results;
+  } catch (error: any) {
+    return { error: error.message || "An error occurred during the worst-case search" };
+  }
+}